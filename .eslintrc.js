@@ -3,4 +3,10 @@ module.exports = {
     extends: [
         "@redhat-actions/eslint-config",
     ],
+    parserOptions: {
+        project: [
+            "./tsconfig.json",
+            "./test/tsconfig.json",
+        ],
+    },
 };
@@ -0,0 +1,79 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { Inputs } from "./generated/inputs-outputs";
+import { LocalImage, getRootManifest } from "./local-image";
+import {
+    ImageIndex, ImageManifest, ManifestData, MediaTypes, sha256Digest,
+} from "./oci";
+import { getTagContext } from "./tag-templates";
+
+const OCI_ANNOTATION_PREFIX = "org.opencontainers.image";
+const RUN_URL_ANNOTATION = "com.github.actions.run.url";
+
+/**
+ * The standard OCI annotations which describe where and when the image was built, from the workflow run.
+ * Annotations whose value is not known are left out.
+ */
+async function getAutomaticAnnotations(): Promise<Record<string, string>> {
+    const serverUrl = process.env.GITHUB_SERVER_URL ?? "https://github.com";
+    const repository = process.env.GITHUB_REPOSITORY;
+    const runId = process.env.GITHUB_RUN_ID;
+    const context = await getTagContext();
+
+    const annotations: Partial<Record<string, string>> = {
+        [`${OCI_ANNOTATION_PREFIX}.source`]: repository ? `${serverUrl}/${repository}` : undefined,
+        [`${OCI_ANNOTATION_PREFIX}.revision`]: context.sha,
+        [`${OCI_ANNOTATION_PREFIX}.created`]: new Date().toISOString(),
+        // the git tag, or else the branch
+        [`${OCI_ANNOTATION_PREFIX}.version`]: context.gitTag ?? context.branch,
+        [RUN_URL_ANNOTATION]: repository && runId ? `${serverUrl}/${repository}/actions/runs/${runId}` : undefined,
+    };
+    return Object.fromEntries(Object.entries(annotations)
+        .filter((entry): entry is [ string, string ] => entry[1] != null));
+}
+
+/**
+ * The annotations to add to the pushed manifests: the automatic annotations if they are enabled,
+ * overridden by the "key=value" annotations of the input.
+ */
+export async function getAnnotations(): Promise<Record<string, string>> {
+    const annotations = core.getInput(Inputs.AUTO_ANNOTATIONS) === "true" ? await getAutomaticAnnotations() : {};
+    for (const line of core.getMultilineInput(Inputs.ANNOTATIONS)) {
+        const separator = line.indexOf("=");
+        if (separator < 1) {
+            throw new Error(`Annotation "${line}" in input "${Inputs.ANNOTATIONS}" must be in the form "key=value"`);
+        }
+        annotations[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+    }
+    return annotations;
+}
+
+/**
+ * Returns the image with the annotations added to its root manifest, before it is pushed.
+ * Docker manifests and manifest lists cannot have annotations, so they are left as they are, with a warning.
+ *
+ * @param name The name of the source, for the warning
+ */
+export function annotateNativeImage<T extends Pick<LocalImage, "manifests">>(
+    image: T,
+    annotations: Record<string, string>,
+    name: string,
+): T {
+    const root = getRootManifest(image);
+    if (root.mediaType !== MediaTypes.OCI_MANIFEST && root.mediaType !== MediaTypes.OCI_INDEX) {
+        core.warning(`"${name}" is a ${root.mediaType}, which cannot have annotations, so it is pushed without them`);
+        return image;
+    }
+
+    const parsed = JSON.parse(root.content.toString()) as ImageManifest | ImageIndex;
+    if (Object.entries(annotations).every(([ key, value ]) => parsed.annotations?.[key] === value)) {
+        return image;
+    }
+    const content = Buffer.from(JSON.stringify({ ...parsed, annotations: { ...parsed.annotations, ...annotations } }));
+    const annotatedRoot: ManifestData = { mediaType: root.mediaType, digest: sha256Digest(content), content };
+    return { ...image, manifests: [ ...image.manifests.slice(0, -1), annotatedRoot ] };
+}
@@ -0,0 +1,197 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+    Descriptor, ImageIndex, ImageManifest, MediaTypes,
+    isIndexMediaType, sha256Digest,
+} from "./oci";
+import { RegistryClient } from "./registry-client";
+
+export enum AttachmentKinds {
+    SBOM = "SBOM",
+    ATTESTATION = "attestation",
+}
+
+enum ArtifactTypes {
+    SPDX_JSON = "application/spdx+json",
+    SPDX_TAG_VALUE = "text/spdx",
+    CYCLONEDX_JSON = "application/vnd.cyclonedx+json",
+    CYCLONEDX_XML = "application/vnd.cyclonedx+xml",
+    IN_TOTO = "application/vnd.in-toto+json",
+    DSSE_ENVELOPE = "application/vnd.dsse.envelope.v1+json",
+}
+
+const TITLE_ANNOTATION = "org.opencontainers.image.title";
+
+/**
+ * A file to attach to the pushed image as a referrer artifact.
+ */
+export interface Attachment {
+    readonly kind: AttachmentKinds;
+    readonly path: string;
+    readonly artifactType: string;
+    readonly content: Buffer;
+}
+
+function parseJson(content: Buffer): Record<string, unknown> | undefined {
+    try {
+        const parsed: unknown = JSON.parse(content.toString());
+        return typeof parsed === "object" && parsed != null ? parsed as Record<string, unknown> : undefined;
+    }
+    catch {
+        return undefined;
+    }
+}
+
+function getSbomArtifactType(content: Buffer): string | undefined {
+    const json = parseJson(content);
+    if (json != null) {
+        if (json.spdxVersion != null) {
+            return ArtifactTypes.SPDX_JSON;
+        }
+        if (json.bomFormat === "CycloneDX") {
+            return ArtifactTypes.CYCLONEDX_JSON;
+        }
+        return undefined;
+    }
+
+    const text = content.toString();
+    if (/^\s*SPDXVersion:/.test(text)) {
+        return ArtifactTypes.SPDX_TAG_VALUE;
+    }
+    if (text.includes("cyclonedx.org/schema/bom")) {
+        return ArtifactTypes.CYCLONEDX_XML;
+    }
+    return undefined;
+}
+
+function getAttestationArtifactType(content: Buffer): string | undefined {
+    const json = parseJson(content);
+    if (json == null) {
+        return undefined;
+    }
+    if (typeof json._type === "string" && json._type.startsWith("https://in-toto.io/Statement/")) {
+        return ArtifactTypes.IN_TOTO;
+    }
+    // a signed attestation
+    if (json.payloadType != null && Array.isArray(json.signatures)) {
+        return ArtifactTypes.DSSE_ENVELOPE;
+    }
+    return undefined;
+}
+
+/**
+ * Read the files to attach, and detect the artifact type of each from its contents.
+ */
+export async function loadAttachments(paths: string[], kind: AttachmentKinds): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+    for (const filePath of paths) {
+        let content: Buffer;
+        try {
+            content = await fs.readFile(filePath);
+        }
+        catch (err) {
+            throw new Error(`Failed to read ${kind} file "${filePath}": ${err}`);
+        }
+
+        const artifactType = kind === AttachmentKinds.SBOM
+            ? getSbomArtifactType(content)
+            : getAttestationArtifactType(content);
+        if (artifactType == null) {
+            throw new Error(kind === AttachmentKinds.SBOM
+                ? `${kind} file "${filePath}" is not an SPDX or CycloneDX document`
+                : `${kind} file "${filePath}" is not an in-toto statement or a DSSE envelope`);
+        }
+        attachments.push({
+            kind, path: filePath, artifactType, content,
+        });
+    }
+    return attachments;
+}
+
+/**
+ * The tag which lists the referrers of the given digest on registries without the referrers API,
+ * eg. "sha256-abc123"
+ */
+export function getReferrersTag(digest: string): string {
+    return digest.replace(":", "-");
+}
+
+/**
+ * Add the referrer to the index under the referrers tag of the subject, unless it is already listed.
+ */
+async function addToReferrersTag(
+    client: RegistryClient,
+    repository: string,
+    subjectDigest: string,
+    referrer: Descriptor,
+): Promise<void> {
+    const referrersTag = getReferrersTag(subjectDigest);
+    const existing = await client.getManifest(repository, referrersTag);
+    // anything other than an index under the tag is not a list of referrers, so it is replaced
+    const index: ImageIndex = existing != null && isIndexMediaType(existing.mediaType)
+        ? JSON.parse(existing.content.toString()) as ImageIndex
+        : { schemaVersion: 2, mediaType: MediaTypes.OCI_INDEX, manifests: [] };
+    if (index.manifests.some((descriptor) => descriptor.digest === referrer.digest)) {
+        return;
+    }
+
+    index.manifests.push(referrer);
+    const content = Buffer.from(JSON.stringify(index));
+    await client.putManifest(repository, referrersTag, {
+        mediaType: MediaTypes.OCI_INDEX,
+        digest: sha256Digest(content),
+        content,
+    });
+}
+
+/**
+ * Push the attachment as an artifact whose subject is the given manifest. Returns the digest of the artifact.
+ * The artifact has no timestamp, so attaching the same file to the same manifest again results in the same digest.
+ */
+export async function attachArtifact(
+    client: RegistryClient,
+    repository: string,
+    subject: Descriptor,
+    attachment: Attachment,
+): Promise<string> {
+    const layer = await client.pushBlobContent(repository, attachment.artifactType, attachment.content);
+    const config = await client.pushBlobContent(repository, MediaTypes.OCI_EMPTY, Buffer.from("{}"));
+
+    const manifest: ImageManifest = {
+        schemaVersion: 2,
+        mediaType: MediaTypes.OCI_MANIFEST,
+        artifactType: attachment.artifactType,
+        config,
+        layers: [{
+            ...layer,
+            annotations: { [TITLE_ANNOTATION]: path.basename(attachment.path) },
+        }],
+        subject: {
+            mediaType: subject.mediaType,
+            digest: subject.digest,
+            size: subject.size,
+        },
+    };
+    const content = Buffer.from(JSON.stringify(manifest));
+    const digest = sha256Digest(content);
+
+    const hasReferrersApi = await client.putReferrer(repository, {
+        mediaType: MediaTypes.OCI_MANIFEST,
+        digest,
+        content,
+    });
+    if (!hasReferrersApi) {
+        await addToReferrersTag(client, repository, subject.digest, {
+            mediaType: MediaTypes.OCI_MANIFEST,
+            digest,
+            size: content.length,
+            artifactType: attachment.artifactType,
+        });
+    }
+    return digest;
+}
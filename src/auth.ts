@@ -0,0 +1,309 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import * as io from "@actions/io";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CloudAuthOptions, getCloudAuthOptions, getCloudCredentials } from "./cloud-auth";
+import { Inputs } from "./generated/inputs-outputs";
+import { RegistryConfig, getRegistryCreds } from "./registries";
+import { RegistryCredentials } from "./registry-client";
+import { parseImageReference } from "./reference";
+import { execute, fileExists } from "./util";
+
+interface AuthEntry {
+    auth?: string;
+    identitytoken?: string;
+}
+
+/**
+ * The parts of a docker config.json, or of a containers auth.json, which hold credentials.
+ */
+interface AuthConfig {
+    auths?: Record<string, AuthEntry>;
+    credHelpers?: Record<string, string>;
+    credsStore?: string;
+}
+
+interface CredentialHelperOutput {
+    Username: string;
+    Secret: string;
+}
+
+const DOCKER_IO = "docker.io";
+// the keys under which docker stores the credentials of Docker Hub
+const DOCKER_IO_KEYS = [ "https://index.docker.io/v1/", "index.docker.io", "registry-1.docker.io" ];
+// a credential helper returns this username for an identity token, which cannot be used as a password
+const IDENTITY_TOKEN_USERNAME = "<token>";
+
+/** The auth file for this run, keyed by registry, or by registry and namespace, eg. "quay.io/namespace" */
+const authEntries = new Map<string, AuthEntry>();
+let authDir: string | undefined;
+
+/**
+ * The auth files which podman and docker read by default, the most preferred first.
+ */
+function getDefaultAuthFiles(): string[] {
+    const authFiles: string[] = [];
+    if (process.env.REGISTRY_AUTH_FILE) {
+        authFiles.push(process.env.REGISTRY_AUTH_FILE);
+    }
+    if (process.env.XDG_RUNTIME_DIR) {
+        authFiles.push(path.join(process.env.XDG_RUNTIME_DIR, "containers/auth.json"));
+    }
+    const xdgConfigHome = process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), ".config");
+    authFiles.push(path.join(xdgConfigHome, "containers/auth.json"));
+    authFiles.push(path.join(process.env.DOCKER_CONFIG ?? path.join(os.homedir(), ".docker"), "config.json"));
+    return authFiles;
+}
+
+/**
+ * Strip what docker adds to the keys of config.json, such as the scheme, so that the keys are like podman's.
+ */
+function normalizeAuthKey(key: string): string {
+    if (DOCKER_IO_KEYS.includes(key)) {
+        return DOCKER_IO;
+    }
+    return key.replace(/^https?:\/\//, "").replace(/\/v[12]\/?$/, "").replace(/\/$/, "");
+}
+
+async function readAuthConfig(authFile: string): Promise<AuthConfig> {
+    let config: AuthConfig;
+    try {
+        config = JSON.parse(await fs.readFile(authFile, "utf-8")) as AuthConfig;
+    }
+    catch (err) {
+        throw new Error(`Failed to read auth file "${authFile}": ${err}`);
+    }
+    core.info(`Reading credentials from "${authFile}"`);
+
+    const auths: Record<string, AuthEntry> = {};
+    for (const [ key, entry ] of Object.entries(config.auths ?? {})) {
+        auths[normalizeAuthKey(key)] = entry;
+    }
+    const credHelpers: Record<string, string> = {};
+    for (const [ key, helper ] of Object.entries(config.credHelpers ?? {})) {
+        credHelpers[normalizeAuthKey(key)] = helper;
+    }
+    return { auths, credHelpers, credsStore: config.credsStore };
+}
+
+/**
+ * Read the auth file given by the input, or else merge the auth files which exist in the default locations.
+ */
+async function loadAuthConfig(): Promise<AuthConfig> {
+    const authFileInput = core.getInput(Inputs.AUTH_FILE);
+    if (authFileInput) {
+        return readAuthConfig(authFileInput);
+    }
+
+    const merged: AuthConfig = { auths: {}, credHelpers: {} };
+    // the most preferred file is read last, so that its entries win
+    for (const authFile of getDefaultAuthFiles().reverse()) {
+        if (await fileExists(authFile)) {
+            const config = await readAuthConfig(authFile);
+            Object.assign(merged.auths ?? {}, config.auths);
+            Object.assign(merged.credHelpers ?? {}, config.credHelpers);
+            merged.credsStore = config.credsStore ?? merged.credsStore;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Returns the key in the record which is the longest prefix of the image's registry and repository.
+ */
+function findAuthKey<T>(record: Map<string, T> | Record<string, T>, image: string): string | undefined {
+    const { registry, repository } = parseImageReference(image);
+    const keys = record instanceof Map ? [ ...record.keys() ] : Object.keys(record);
+    const components = [ registry, ...repository.split("/") ];
+    for (let length = components.length; length > 0; length--) {
+        const candidate = components.slice(0, length).join("/");
+        if (keys.includes(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+async function getHelperCredentials(helper: string, registry: string): Promise<RegistryCredentials | undefined> {
+    const helperPath = await io.which(`docker-credential-${helper}`, false);
+    if (!helperPath) {
+        core.warning(`Credential helper "docker-credential-${helper}" for "${registry}" was not found`);
+        return undefined;
+    }
+
+    // docker stores the credentials of Docker Hub under its legacy URL
+    const serverUrl = registry === DOCKER_IO ? DOCKER_IO_KEYS[0] : registry;
+    const result = await execute(helperPath, [ "get" ], {
+        input: Buffer.from(serverUrl),
+        silent: true,
+        ignoreReturnCode: true,
+    });
+    if (result.exitCode !== 0) {
+        core.info(`Credential helper "${helper}" has no credentials for "${registry}"`);
+        return undefined;
+    }
+
+    const output = JSON.parse(result.stdout) as CredentialHelperOutput;
+    if (output.Username === IDENTITY_TOKEN_USERNAME) {
+        core.warning(`Credential helper "${helper}" returned an identity token for "${registry}", `
+            + `which is not supported`);
+        return undefined;
+    }
+    core.setSecret(output.Secret);
+    return { username: output.Username, password: output.Secret };
+}
+
+function toAuthEntry(credentials: RegistryCredentials): AuthEntry {
+    return { auth: Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64") };
+}
+
+function fromAuthEntry(entry: AuthEntry | undefined): RegistryCredentials | undefined {
+    if (!entry?.auth) {
+        return undefined;
+    }
+    const decoded = Buffer.from(entry.auth, "base64").toString();
+    const separator = decoded.indexOf(":");
+    return { username: decoded.substring(0, separator), password: decoded.substring(separator + 1) };
+}
+
+/**
+ * Get the credentials for the image from the credential helper of the auth config,
+ * or else by exchanging the cloud credentials in the environment.
+ * Returns them with the auth key they apply to, or undefined if there are none.
+ */
+async function getHelperOrCloudCredentials(
+    image: string,
+    authConfig: AuthConfig,
+    cloudAuthOptions: CloudAuthOptions,
+): Promise<{ key: string, credentials: RegistryCredentials } | undefined> {
+    const { registry } = parseImageReference(image);
+    const helperKey = findAuthKey(authConfig.credHelpers ?? {}, image);
+    const helper = helperKey != null ? authConfig.credHelpers?.[helperKey] : authConfig.credsStore;
+    if (helper) {
+        const credentials = await getHelperCredentials(helper, helperKey ?? registry);
+        if (credentials != null) {
+            return { key: helperKey ?? registry, credentials };
+        }
+    }
+
+    const cloudCredentials = await getCloudCredentials(registry, cloudAuthOptions);
+    return cloudCredentials && { key: registry, credentials: cloudCredentials };
+}
+
+/**
+ * Collect the credentials for every destination, and write them to a temporary auth file for podman.
+ * The credentials come from the registry inputs, or else from the auth files and their credential helpers,
+ * or else from exchanging the cloud credentials in the environment for the credentials of a cloud registry.
+ * Returns the path to the auth file, or undefined if there are no credentials.
+ */
+export async function prepareAuthFile(
+    destinations: { destination: string, registry: RegistryConfig }[],
+): Promise<string | undefined> {
+    const authConfig = await loadAuthConfig();
+    const cloudAuthOptions = getCloudAuthOptions();
+    for (const [ key, entry ] of Object.entries(authConfig.auths ?? {})) {
+        authEntries.set(key, entry);
+    }
+
+    const inputKeys = new Set<string>();
+    const credsByRegistry = new Map<RegistryConfig, string>();
+    for (const { destination, registry: registryConfig } of destinations) {
+        // checked once per registry, since it warns about incomplete credentials
+        const creds = credsByRegistry.get(registryConfig) ?? getRegistryCreds(registryConfig);
+        credsByRegistry.set(registryConfig, creds);
+        if (creds) {
+            // the credentials of a registry input only apply to that registry, which may include a namespace
+            const key = registryConfig.registry || parseImageReference(destination).registry;
+            authEntries.set(key, { auth: Buffer.from(creds).toString("base64") });
+            inputKeys.add(key);
+            // the inputs take precedence over the more specific entries of the auth files
+            for (const otherKey of authEntries.keys()) {
+                if (otherKey.startsWith(`${key}/`) && !inputKeys.has(otherKey)) {
+                    authEntries.delete(otherKey);
+                }
+            }
+            continue;
+        }
+        if (findAuthKey(authEntries, destination) != null) {
+            continue;
+        }
+
+        const found = await getHelperOrCloudCredentials(destination, authConfig, cloudAuthOptions);
+        if (found != null) {
+            authEntries.set(found.key, toAuthEntry(found.credentials));
+        }
+    }
+
+    if (authEntries.size === 0) {
+        return undefined;
+    }
+
+    authDir = await fs.mkdtemp(path.join(os.tmpdir(), "push-to-registry-auth-"));
+    const authFile = path.join(authDir, "auth.json");
+    await fs.writeFile(authFile, JSON.stringify({ auths: Object.fromEntries(authEntries) }), { mode: 0o600 });
+    core.debug(`Wrote credentials for "${[ ...authEntries.keys() ].join(", ")}" to "${authFile}"`);
+    return authFile;
+}
+
+/**
+ * Write the credentials of the auth file as a docker config.json next to it, for "docker --config".
+ * Docker looks up the credentials of Docker Hub only under "https://index.docker.io/v1/", and only by registry,
+ * so the credentials of a namespace are used for its whole registry, unless the registry has its own.
+ * Returns the directory of the config.json.
+ */
+export async function writeDockerConfig(authFile: string): Promise<string> {
+    const { auths = {} } = JSON.parse(await fs.readFile(authFile, "utf-8")) as AuthConfig;
+    const dockerAuths: Record<string, AuthEntry> = {};
+    // the entries of whole registries first, so that they win over the entries of their namespaces
+    const keys = Object.keys(auths).sort((a, b) => Number(a.includes("/")) - Number(b.includes("/")));
+    for (const key of keys) {
+        const [ registry ] = key.split("/");
+        const dockerKey = registry === DOCKER_IO ? DOCKER_IO_KEYS[0] : registry;
+        dockerAuths[dockerKey] = dockerAuths[dockerKey] ?? auths[key];
+    }
+
+    const configDir = path.dirname(authFile);
+    await fs.writeFile(path.join(configDir, "config.json"), JSON.stringify({ auths: dockerAuths }), { mode: 0o600 });
+    return configDir;
+}
+
+/**
+ * Returns the credentials for the image from the auth file of this run, if it has any.
+ */
+export function getCredentials(image: string): RegistryCredentials | undefined {
+    const key = findAuthKey(authEntries, image);
+    return fromAuthEntry(key != null ? authEntries.get(key) : undefined);
+}
+
+/**
+ * Find the credentials for pulling the image from the auth files and their credential helpers,
+ * or else from the cloud credentials in the environment.
+ * They are kept apart from the auth file of this run, so that the source and the destinations
+ * can use different credentials for the same registry.
+ */
+export async function findPullCredentials(image: string): Promise<RegistryCredentials | undefined> {
+    const authConfig = await loadAuthConfig();
+    const key = findAuthKey(authConfig.auths ?? {}, image);
+    const credentials = fromAuthEntry(key != null ? authConfig.auths?.[key] : undefined);
+    if (credentials != null) {
+        return credentials;
+    }
+    return (await getHelperOrCloudCredentials(image, authConfig, getCloudAuthOptions()))?.credentials;
+}
+
+export async function removeAuthFile(): Promise<void> {
+    if (authDir) {
+        try {
+            await fs.rm(authDir, { recursive: true, force: true });
+        }
+        catch (err) {
+            core.warning(`Failed to remove auth file directory ${authDir}: ${err}`);
+        }
+    }
+}
@@ -0,0 +1,213 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import * as crypto from "crypto";
+import { httpRequest, httpRequestJson } from "./http";
+import { RegistryCredentials } from "./registry-client";
+import { getIdentityToken } from "./util";
+
+// eg. 123456789012.dkr.ecr.us-east-1.amazonaws.com, or 123456789012.dkr-ecr-fips.us-gov-west-1.amazonaws.com
+const ECR_REGISTRY = /^(\d{12})\.dkr[.-]ecr(-fips)?\.([a-z0-9-]+)\.amazonaws\.com(\.cn)?$/;
+const STS_AUDIENCE = "sts.amazonaws.com";
+
+interface AwsCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}
+
+interface AwsRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+interface EcrAuthorizationData {
+    authorizationData?: { authorizationToken: string }[];
+}
+
+export function isEcrRegistry(registry: string): boolean {
+    return ECR_REGISTRY.test(registry);
+}
+
+function sha256Hex(data: string): string {
+    return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+    return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * URI-encode as AWS expects, which also encodes the characters encodeURIComponent leaves as they are.
+ */
+function awsEncode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign the request with AWS Signature Version 4.
+ * Returns the headers of the request, with the "Authorization" header and the headers it signs added.
+ */
+export function signAwsRequest(
+    request: AwsRequest,
+    credentials: AwsCredentials,
+    region: string,
+    service: string,
+    date: Date = new Date(),
+): Record<string, string> {
+    const url = new URL(request.url);
+    // eg. 20150830T123600Z
+    const amzDate = date.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+    const headers: Record<string, string> = {
+        ...request.headers,
+        Host: url.host,
+        "X-Amz-Date": amzDate,
+    };
+    if (credentials.sessionToken) {
+        headers["X-Amz-Security-Token"] = credentials.sessionToken;
+    }
+
+    const canonicalHeaders = Object.entries(headers)
+        .map(([ name, value ]) => [ name.toLowerCase(), value.trim().replace(/\s+/g, " ") ])
+        .sort(([ a ], [ b ]) => (a < b ? -1 : 1));
+    const signedHeaders = canonicalHeaders.map(([ name ]) => name).join(";");
+    const canonicalQuery = [ ...url.searchParams.entries() ]
+        .map(([ name, value ]) => `${awsEncode(name)}=${awsEncode(value)}`)
+        .sort()
+        .join("&");
+    const canonicalRequest = [
+        request.method,
+        url.pathname || "/",
+        canonicalQuery,
+        ...canonicalHeaders.map(([ name, value ]) => `${name}:${value}`),
+        "",
+        signedHeaders,
+        sha256Hex(request.body),
+    ].join("\n");
+
+    const day = amzDate.substring(0, 8);
+    const scope = `${day}/${region}/${service}/aws4_request`;
+    const stringToSign = [ "AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest) ].join("\n");
+    const signingKey = [ day, region, service, "aws4_request" ]
+        .reduce<Buffer>((key, data) => hmac(key, data), Buffer.from(`AWS4${credentials.secretAccessKey}`));
+    const signature = hmac(signingKey, stringToSign).toString("hex");
+
+    headers.Authorization = `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, `
+        + `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return headers;
+}
+
+function getXmlElement(xml: string, element: string): string | undefined {
+    const match = new RegExp(`<${element}>([^<]*)</${element}>`).exec(xml);
+    return match?.[1];
+}
+
+/**
+ * Exchange a web identity token, such as the OIDC token of the workflow, for credentials of the role.
+ */
+async function assumeRoleWithWebIdentity(
+    roleArn: string,
+    webIdentityToken: string,
+    stsEndpoint: string,
+): Promise<AwsCredentials> {
+    const url = new URL(stsEndpoint);
+    url.searchParams.set("Action", "AssumeRoleWithWebIdentity");
+    url.searchParams.set("Version", "2011-06-15");
+    url.searchParams.set("RoleArn", roleArn);
+    url.searchParams.set("RoleSessionName", process.env.AWS_ROLE_SESSION_NAME || `push-to-registry-${Date.now()}`);
+    url.searchParams.set("WebIdentityToken", webIdentityToken);
+
+    const response = await httpRequest(url.toString(), { method: "GET" });
+    const body = response.body.toString();
+    if (response.statusCode !== 200) {
+        throw new Error(`Failed to assume role "${roleArn}": status ${response.statusCode} `
+            + `${getXmlElement(body, "Message") ?? response.statusMessage}`);
+    }
+
+    const accessKeyId = getXmlElement(body, "AccessKeyId");
+    const secretAccessKey = getXmlElement(body, "SecretAccessKey");
+    if (!accessKeyId || !secretAccessKey) {
+        throw new Error(`The response to assuming role "${roleArn}" has no credentials`);
+    }
+    const sessionToken = getXmlElement(body, "SessionToken");
+    core.setSecret(secretAccessKey);
+    if (sessionToken) {
+        core.setSecret(sessionToken);
+    }
+    return { accessKeyId, secretAccessKey, sessionToken };
+}
+
+/**
+ * Read the AWS credentials from the environment, assuming the role of AWS_ROLE_ARN with a web identity token
+ * if there are no access keys.
+ */
+async function getAwsCredentials(stsEndpoint: string): Promise<AwsCredentials | undefined> {
+    const { AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_ROLE_ARN } = process.env;
+    if (AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY) {
+        return {
+            accessKeyId: AWS_ACCESS_KEY_ID,
+            secretAccessKey: AWS_SECRET_ACCESS_KEY,
+            sessionToken: process.env.AWS_SESSION_TOKEN,
+        };
+    }
+    if (!AWS_ROLE_ARN) {
+        return undefined;
+    }
+
+    const webIdentityToken = await getIdentityToken(process.env.AWS_WEB_IDENTITY_TOKEN_FILE, STS_AUDIENCE);
+    if (webIdentityToken == null) {
+        return undefined;
+    }
+    core.info(`Assuming role "${AWS_ROLE_ARN}" with a web identity token`);
+    return assumeRoleWithWebIdentity(AWS_ROLE_ARN, webIdentityToken, stsEndpoint);
+}
+
+/**
+ * Get a registry token for the ECR registry from the AWS credentials in the environment.
+ * Returns undefined if there are no AWS credentials.
+ *
+ * @param endpoints Overrides of the "aws-sts" and "aws-ecr" endpoints
+ */
+export async function getEcrCredentials(
+    registry: string,
+    endpoints: Partial<Record<string, string>>,
+): Promise<RegistryCredentials | undefined> {
+    const match = ECR_REGISTRY.exec(registry);
+    if (match == null) {
+        return undefined;
+    }
+    const [ , , fips, region, china ] = match;
+    const domain = china ? "amazonaws.com.cn" : "amazonaws.com";
+
+    const credentials = await getAwsCredentials(endpoints["aws-sts"] ?? `https://sts.${region}.${domain}`);
+    if (credentials == null) {
+        return undefined;
+    }
+
+    const ecrEndpoint = endpoints["aws-ecr"] ?? `https://${fips ? "ecr-fips" : "api.ecr"}.${region}.${domain}`;
+    const request: AwsRequest = {
+        method: "POST",
+        url: ecrEndpoint,
+        headers: {
+            "Content-Type": "application/x-amz-json-1.1",
+            "X-Amz-Target": "AmazonEC2ContainerRegistry_V20150921.GetAuthorizationToken",
+        },
+        body: "{}",
+    };
+    const headers = signAwsRequest(request, credentials, region, "ecr");
+    const response = await httpRequestJson<EcrAuthorizationData>(ecrEndpoint, { ...request, headers });
+
+    const token = response.authorizationData?.[0]?.authorizationToken;
+    if (!token) {
+        throw new Error(`The ECR authorization token response for "${registry}" has no token`);
+    }
+    // the token is the base64 of "AWS:<password>"
+    const decoded = Buffer.from(token, "base64").toString();
+    const separator = decoded.indexOf(":");
+    return { username: decoded.substring(0, separator), password: decoded.substring(separator + 1) };
+}
@@ -0,0 +1,91 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { postForm } from "./http";
+import { RegistryCredentials } from "./registry-client";
+import { getIdentityToken } from "./util";
+
+// eg. myregistry.azurecr.io
+const ACR_REGISTRY = /\.azurecr\.(io|cn|us)$/;
+const FEDERATED_TOKEN_AUDIENCE = "api://AzureADTokenExchange";
+const DEFAULT_AUTHORITY_HOST = "https://login.microsoftonline.com";
+const MANAGEMENT_SCOPE = "https://management.azure.com/.default";
+// the username with which ACR accepts a refresh token as the password
+const REFRESH_TOKEN_USERNAME = "00000000-0000-0000-0000-000000000000";
+
+export function isAcrRegistry(registry: string): boolean {
+    return ACR_REGISTRY.test(registry);
+}
+
+/**
+ * Get an Azure AD access token for the client of AZURE_CLIENT_ID,
+ * with a federated token, such as the OIDC token of the workflow, or else with the client secret.
+ */
+async function getAzureAccessToken(
+    clientId: string,
+    tenantId: string,
+    tokenUrl: string,
+): Promise<string | undefined> {
+    const params: Record<string, string> = {
+        client_id: clientId,
+        scope: MANAGEMENT_SCOPE,
+        grant_type: "client_credentials",
+    };
+
+    const federatedToken = await getIdentityToken(process.env.AZURE_FEDERATED_TOKEN_FILE, FEDERATED_TOKEN_AUDIENCE);
+    if (federatedToken != null) {
+        params.client_assertion_type = "urn:ietf:params:oauth:client-assertion-type:jwt-bearer";
+        params.client_assertion = federatedToken;
+    }
+    else if (process.env.AZURE_CLIENT_SECRET) {
+        params.client_secret = process.env.AZURE_CLIENT_SECRET;
+    }
+    else {
+        return undefined;
+    }
+
+    core.info(`Requesting an access token for Azure client "${clientId}" in tenant "${tenantId}"`);
+    const response = await postForm<{ access_token: string }>(tokenUrl, params);
+    core.setSecret(response.access_token);
+    return response.access_token;
+}
+
+/**
+ * Get a refresh token for the ACR registry from the Azure credentials in the environment.
+ * Returns undefined if there are no Azure credentials.
+ *
+ * @param endpoints Overrides of the "azure-token" and "azure-acr" endpoints
+ */
+export async function getAcrCredentials(
+    registry: string,
+    endpoints: Partial<Record<string, string>>,
+): Promise<RegistryCredentials | undefined> {
+    const { AZURE_CLIENT_ID, AZURE_TENANT_ID } = process.env;
+    if (!isAcrRegistry(registry) || !AZURE_CLIENT_ID || !AZURE_TENANT_ID) {
+        return undefined;
+    }
+
+    const authorityHost = (process.env.AZURE_AUTHORITY_HOST || DEFAULT_AUTHORITY_HOST).replace(/\/$/, "");
+    const accessToken = await getAzureAccessToken(
+        AZURE_CLIENT_ID,
+        AZURE_TENANT_ID,
+        endpoints["azure-token"] ?? `${authorityHost}/${AZURE_TENANT_ID}/oauth2/v2.0/token`,
+    );
+    if (accessToken == null) {
+        return undefined;
+    }
+
+    const response = await postForm<{ refresh_token: string }>(
+        endpoints["azure-acr"] ?? `https://${registry}/oauth2/exchange`,
+        {
+            grant_type: "access_token",
+            service: registry,
+            tenant: AZURE_TENANT_ID,
+            access_token: accessToken,
+        },
+    );
+    return { username: REFRESH_TOKEN_USERNAME, password: response.refresh_token };
+}
@@ -0,0 +1,109 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { getEcrCredentials, isEcrRegistry } from "./aws-auth";
+import { getAcrCredentials, isAcrRegistry } from "./azure-auth";
+import { getGcpCredentials, isGcpRegistry } from "./gcp-auth";
+import { Inputs } from "./generated/inputs-outputs";
+import { RegistryCredentials } from "./registry-client";
+import { splitByNewline } from "./util";
+
+export enum CloudProviders {
+    AWS = "aws",
+    GCP = "gcp",
+    AZURE = "azure",
+}
+
+const ENDPOINT_NAMES = [ "aws-sts", "aws-ecr", "gcp-oauth2", "gcp-sts", "gcp-iam", "azure-token", "azure-acr" ];
+
+const PROVIDER_NAMES: Record<CloudProviders, string> = {
+    [CloudProviders.AWS]: "AWS",
+    [CloudProviders.GCP]: "Google Cloud",
+    [CloudProviders.AZURE]: "Azure",
+};
+
+export interface CloudAuthOptions {
+    readonly enabled: boolean;
+    /** The URLs of the token exchange endpoints to use instead of the default ones, keyed by endpoint name */
+    readonly endpoints: Partial<Record<string, string>>;
+}
+
+export function getCloudAuthOptions(): CloudAuthOptions {
+    const enabled = core.getInput(Inputs.CLOUD_AUTH) !== "false";
+
+    const endpoints: Partial<Record<string, string>> = {};
+    const lines = splitByNewline(core.getInput(Inputs.CLOUD_AUTH_ENDPOINTS)).map((line) => line.trim());
+    for (const line of lines.filter((l) => l)) {
+        const separator = line.indexOf("=");
+        const name = line.substring(0, separator).trim();
+        if (separator < 0 || !ENDPOINT_NAMES.includes(name)) {
+            throw new Error(`Each line of "${Inputs.CLOUD_AUTH_ENDPOINTS}" must be "<name>=<url>", `
+                + `where the name is one of "${ENDPOINT_NAMES.join(", ")}", but a line is "${line}"`);
+        }
+        endpoints[name] = line.substring(separator + 1).trim();
+    }
+    return { enabled, endpoints };
+}
+
+/**
+ * Returns the cloud provider whose registry the hostname is, or undefined if it is not a cloud registry.
+ */
+export function detectCloudProvider(registry: string): CloudProviders | undefined {
+    if (isEcrRegistry(registry)) {
+        return CloudProviders.AWS;
+    }
+    if (isGcpRegistry(registry)) {
+        return CloudProviders.GCP;
+    }
+    if (isAcrRegistry(registry)) {
+        return CloudProviders.AZURE;
+    }
+    return undefined;
+}
+
+/**
+ * Exchange the credentials of the cloud provider in the environment for short-lived credentials for its registry.
+ * Returns undefined if the registry is not a cloud registry, or if there are no credentials in the environment.
+ * Throws if the exchange fails.
+ */
+export async function getCloudCredentials(
+    registry: string,
+    options: CloudAuthOptions,
+): Promise<RegistryCredentials | undefined> {
+    const provider = detectCloudProvider(registry);
+    if (!options.enabled || provider == null) {
+        return undefined;
+    }
+
+    let credentials: RegistryCredentials | undefined;
+    try {
+        switch (provider) {
+        case CloudProviders.AWS:
+            credentials = await getEcrCredentials(registry, options.endpoints);
+            break;
+        case CloudProviders.GCP:
+            credentials = await getGcpCredentials(registry, options.endpoints);
+            break;
+        case CloudProviders.AZURE:
+            credentials = await getAcrCredentials(registry, options.endpoints);
+            break;
+        default:
+            break;
+        }
+    }
+    catch (err) {
+        throw new Error(`Failed to get ${PROVIDER_NAMES[provider]} credentials for "${registry}": ${err}`);
+    }
+
+    if (credentials == null) {
+        core.debug(`"${registry}" is a ${PROVIDER_NAMES[provider]} registry, but there are no credentials for it `
+            + `in the environment`);
+        return undefined;
+    }
+    core.setSecret(credentials.password);
+    core.info(`✅ Got ${PROVIDER_NAMES[provider]} credentials for "${registry}"`);
+    return credentials;
+}
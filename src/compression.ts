@@ -0,0 +1,76 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { Inputs } from "./generated/inputs-outputs";
+import { getNumberInput } from "./util";
+
+export enum CompressionFormats {
+    GZIP = "gzip",
+    ZSTD = "zstd",
+    ZSTD_CHUNKED = "zstd:chunked",
+}
+
+/**
+ * How the engine compresses the layers it pushes. Undefined values are left to the engine's defaults.
+ */
+export interface CompressionOptions {
+    readonly format: CompressionFormats | undefined;
+    readonly level: number | undefined;
+    /**
+     * The formats of the variants of each image which are added to the pushed manifest list.
+     * A single image is pushed as a manifest list of only that image, to add the variants to it.
+     */
+    readonly addFormats: CompressionFormats[];
+}
+
+const MAX_GZIP_LEVEL = 9;
+const MAX_ZSTD_LEVEL = 20;
+
+function parseFormat(format: string, input: string): CompressionFormats {
+    const formats = Object.values(CompressionFormats) as string[];
+    if (!formats.includes(format)) {
+        throw new Error(`Input "${input}" must be one of "${formats.join(", ")}", but it is "${format}"`);
+    }
+    return format as CompressionFormats;
+}
+
+export function getCompressionOptions(): CompressionOptions {
+    const formatInput = core.getInput(Inputs.COMPRESSION_FORMAT);
+    const format = formatInput ? parseFormat(formatInput, Inputs.COMPRESSION_FORMAT) : undefined;
+
+    let level: number | undefined;
+    if (core.getInput(Inputs.COMPRESSION_LEVEL)) {
+        if (format == null) {
+            throw new Error(`Input "${Inputs.COMPRESSION_LEVEL}" can only be used with "${Inputs.COMPRESSION_FORMAT}"`);
+        }
+        level = getNumberInput(Inputs.COMPRESSION_LEVEL, 1, format === CompressionFormats.GZIP
+            ? MAX_GZIP_LEVEL
+            : MAX_ZSTD_LEVEL);
+    }
+
+    const addFormats = core.getInput(Inputs.ADD_COMPRESSION).split(/\s+/).filter((added) => added)
+        .map((added) => parseFormat(added, Inputs.ADD_COMPRESSION));
+    if (addFormats.length > 0 && format == null) {
+        // the formats are recorded in the outputs, so the format of the main variant has to be known
+        throw new Error(`Input "${Inputs.ADD_COMPRESSION}" can only be used with "${Inputs.COMPRESSION_FORMAT}"`);
+    }
+    if (format != null && addFormats.includes(format)) {
+        throw new Error(`Input "${Inputs.ADD_COMPRESSION}" cannot have "${format}", `
+            + `which is already the "${Inputs.COMPRESSION_FORMAT}"`);
+    }
+    return { format, level, addFormats };
+}
+
+export function isCompressionSet(options: CompressionOptions): boolean {
+    return options.format != null;
+}
+
+/**
+ * The formats which the layers are pushed with, or none if they are pushed with the engine's default.
+ */
+export function getCompressionFormats(options: CompressionOptions): CompressionFormats[] {
+    return options.format != null ? [ options.format, ...options.addFormats ] : [];
+}
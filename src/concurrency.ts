@@ -0,0 +1,48 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { Inputs } from "./generated/inputs-outputs";
+import { getNumberInput } from "./util";
+
+/**
+ * Runs the given task once fewer than the limit of tasks are running.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function getConcurrency(): number {
+    const concurrency = getNumberInput(Inputs.CONCURRENCY, 1);
+    if (!Number.isInteger(concurrency)) {
+        throw new Error(`Input "${Inputs.CONCURRENCY}" must be a whole number`);
+    }
+    return concurrency;
+}
+
+/**
+ * Create a limiter which runs at most "concurrency" tasks at a time.
+ * Tasks are started in the order they are passed to the limiter.
+ */
+export function createLimiter(concurrency: number): Limiter {
+    let running = 0;
+    const queue: (() => void)[] = [];
+
+    const startNext = (): void => {
+        if (running < concurrency && queue.length > 0) {
+            running++;
+            queue.shift()?.();
+        }
+    };
+
+    return <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+            task()
+                .then(resolve, reject)
+                .finally(() => {
+                    running--;
+                    startNext();
+                });
+        });
+        startNext();
+    });
+}
@@ -0,0 +1,865 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import * as io from "@actions/io";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Inputs } from "./generated/inputs-outputs";
+import { writeDockerConfig } from "./auth";
+import { CompressionOptions, isCompressionSet } from "./compression";
+import {
+    ImageIndex, ImageManifest, Platform, sha256Digest,
+} from "./oci";
+import { normalizeReference } from "./reference";
+import {
+    ExecResult, ExecuteOptions, execute,
+    findFuseOverlayfsPath, isStorageDriverOverlay,
+} from "./util";
+
+export enum Engines {
+    PODMAN = "podman",
+    BUILDAH = "buildah",
+    SKOPEO = "skopeo",
+    DOCKER = "docker",
+}
+
+const AUTO_ENGINE = "auto";
+
+export enum ImageStorages {
+    /** The image storage of podman and buildah */
+    CONTAINERS = "containers-storage",
+    DOCKER = "docker",
+}
+
+export interface ImageInfo {
+    /** The digest of the image config, which podman and docker use as the image ID */
+    readonly id: string;
+    readonly created: Date;
+    readonly platform: Platform;
+    readonly labels: Record<string, string>;
+    /** The user which containers of the image run as, empty for the default of root */
+    readonly user: string;
+    readonly annotations: Record<string, string>;
+}
+
+/**
+ * How the engine connects to registries.
+ */
+export interface RegistryAccess {
+    /** "true" or "false", or empty for the engine's default */
+    readonly tlsVerify: string;
+    readonly authFile: string | undefined;
+}
+
+export interface PushRequest extends RegistryAccess {
+    readonly source: string;
+    readonly storage: ImageStorages;
+    readonly destination: string;
+    readonly isManifest: boolean;
+    /** The file to which the engine writes the digest of the pushed manifest, if it can */
+    readonly digestFile: string;
+    readonly extraArgs: string[];
+    readonly compression: CompressionOptions;
+}
+
+/**
+ * A program which can read images from local image storage and push them.
+ */
+export interface ContainerEngine {
+    readonly name: Engines;
+    readonly path: string;
+    /** The image storages the engine can push from */
+    readonly storages: ImageStorages[];
+
+    imageExists(image: string, storage: ImageStorages): Promise<boolean>;
+    /** Whether the image is a manifest list in the containers storage */
+    manifestExists(image: string): Promise<boolean>;
+    /**
+     * The ID of the image, or undefined if the storage does not have it.
+     * It does not copy the image out of the Docker image storage, if it can avoid it.
+     */
+    getImageId(image: string, storage: ImageStorages): Promise<string | undefined>;
+    inspectImage(image: string, storage: ImageStorages): Promise<ImageInfo>;
+    /** The arguments of the push command for the compression. Throws if the engine cannot push with it. */
+    getCompressionArgs(compression: CompressionOptions): string[];
+    /**
+     * The commands which push the image, each as the executable followed by its arguments.
+     * It sets up what the commands read the image from, such as a temporary image storage, but does not run them.
+     */
+    getPushCommands(request: PushRequest): Promise<string[][]>;
+    /** Push the image, and return the digest of the pushed manifest if it is known */
+    push(request: PushRequest, execOptions: ExecuteOptions): Promise<string | undefined>;
+    /**
+     * Copy the image of the request to an OCI layout instead of its destination, with the compression of the request,
+     * so that its manifest can be changed before it is pushed. Throws if the engine cannot write OCI layouts.
+     */
+    exportImage(request: PushRequest, layoutDir: string): Promise<void>;
+
+    createManifestList(name: string): Promise<void>;
+    /**
+     * Add the image, given with its transport, to the manifest list, as the given platform if it is known.
+     * Images are read from registries with the registry access.
+     */
+    addToManifestList(
+        name: string,
+        reference: string,
+        platform: Platform | undefined,
+        access: RegistryAccess,
+    ): Promise<void>;
+    inspectManifestList(name: string): Promise<ImageIndex>;
+    /**
+     * Copy the manifest list with all its images to the destination, which includes the transport.
+     * Images of the list which are not stored locally are read from their registries with the registry access.
+     */
+    copyManifestList(name: string, destination: string, access: RegistryAccess): Promise<void>;
+    /** Set annotations of the manifest list itself, which are pushed with it */
+    annotateManifestList(name: string, annotations: Record<string, string>): Promise<void>;
+    removeManifestList(name: string): Promise<void>;
+
+    /** Remove what the engine created for this run, such as temporary image storage */
+    cleanup(): Promise<void>;
+}
+
+interface InspectedPlatform {
+    os?: string;
+    architecture?: string;
+    variant?: string;
+}
+
+/** The runtime config of an image, as in the "config" of an OCI image config */
+interface InspectedConfig {
+    User?: string;
+    Labels?: Record<string, string> | null;
+}
+
+/** An OCI image config, as skopeo and buildah show it */
+type InspectedOciConfig = InspectedPlatform & { created?: string, config?: InspectedConfig };
+
+function toPlatform(inspected: InspectedPlatform): Platform {
+    return {
+        os: inspected.os ?? "unknown",
+        architecture: inspected.architecture ?? "unknown",
+        variant: inspected.variant || undefined,
+    };
+}
+
+type Runner = (args: string[], execOptions?: ExecuteOptions) => Promise<ExecResult>;
+
+interface DockerImageInspect {
+    Id: string;
+    Created: string;
+    Os?: string;
+    Architecture?: string;
+    Variant?: string;
+    Config?: InspectedConfig;
+}
+
+/**
+ * Look up the ID of the image in the Docker image storage with the docker CLI.
+ */
+async function inspectDockerImageId(dockerPath: string, image: string): Promise<string | undefined> {
+    const result = await execute(dockerPath, [ "image", "inspect", "--format", "{{.Id}}", image ], {
+        ignoreReturnCode: true,
+        silent: true,
+    });
+    const id = result.stdout.trim();
+    return result.exitCode === 0 && id ? id : undefined;
+}
+
+/**
+ * Inspect the image in the Docker image storage with the docker CLI, which reads it without copying it.
+ */
+async function inspectDockerImage(dockerPath: string, image: string): Promise<ImageInfo> {
+    const result = await execute(dockerPath, [ "image", "inspect", image ], { silent: true });
+    const [ inspect ] = JSON.parse(result.stdout) as DockerImageInspect[];
+    return {
+        id: inspect.Id,
+        created: new Date(inspect.Created),
+        platform: toPlatform({ os: inspect.Os, architecture: inspect.Architecture, variant: inspect.Variant }),
+        labels: inspect.Config?.Labels ?? {},
+        user: inspect.Config?.User ?? "",
+        // docker does not keep the annotations of the manifests it pulls
+        annotations: {},
+    };
+}
+
+function createRunner(enginePath: string): Runner {
+    return (args, execOptions = {}) => execute(enginePath, args, execOptions);
+}
+
+async function readDigestFile(digestFile: string): Promise<string | undefined> {
+    try {
+        return (await fs.readFile(digestFile)).toString();
+    }
+    catch (err) {
+        core.warning(`Failed to read digest file "${digestFile}": ${err}`);
+        return undefined;
+    }
+}
+
+/**
+ * Run the push commands, and read the digest which the last of them wrote to the digest file.
+ */
+async function runPushCommands(
+    commands: string[][],
+    digestFile: string,
+    execOptions: ExecuteOptions,
+): Promise<string | undefined> {
+    for (const [ executable, ...args ] of commands) {
+        await execute(executable, args, execOptions);
+    }
+    return readDigestFile(digestFile);
+}
+
+/**
+ * The arguments with which podman, buildah and skopeo connect to registries.
+ * The credentials are passed in a file, so that they don't show up in the process list.
+ */
+function getRegistryAccessArgs(access: RegistryAccess, prefix: string = ""): string[] {
+    const args: string[] = [];
+    if (access.tlsVerify) {
+        args.push(`--${prefix}tls-verify=${access.tlsVerify}`);
+    }
+    if (access.authFile) {
+        args.push(`--${prefix}authfile=${access.authFile}`);
+    }
+    return args;
+}
+
+type ManifestListMethods = Pick<ContainerEngine, "createManifestList" | "addToManifestList"
+    | "inspectManifestList" | "copyManifestList" | "annotateManifestList" | "removeManifestList">;
+
+/**
+ * The manifest list methods of an engine which cannot create manifest lists, which all fail.
+ */
+function getUnsupportedManifestListMethods(name: Engines): ManifestListMethods {
+    const fail = async (): Promise<never> => {
+        throw new Error(`Engine "${name}" cannot create manifest lists. `
+            + `Set "${Inputs.ENGINE}" to "${Engines.PODMAN}" or "${Engines.BUILDAH}".`);
+    };
+    return {
+        createManifestList: fail,
+        addToManifestList: fail,
+        inspectManifestList: fail,
+        copyManifestList: fail,
+        annotateManifestList: fail,
+        removeManifestList: fail,
+    };
+}
+
+/**
+ * The commands in which podman and buildah differ.
+ */
+interface ContainersStorageCommands {
+    manifestExists(run: Runner, image: string): Promise<boolean>;
+    imageExists(run: Runner, image: string): Promise<boolean>;
+    /** Inspect the image in the storage selected by the global options */
+    inspectImage(run: Runner, storageOpts: string[], image: string): Promise<ImageInfo>;
+    getPushDestination(request: PushRequest): string;
+}
+
+/**
+ * Create the temporary storage into which images are pulled from the Docker image storage,
+ * and return the global options which select it.
+ */
+async function createDockerStorage(name: Engines, storageRoot: string): Promise<string[]> {
+    core.info(`Creating temporary ${name} image storage for pulling from Docker daemon`);
+    const storageOpts = [ "--root", storageRoot ];
+
+    if (await isStorageDriverOverlay()) {
+        const fuseOverlayfsPath = await findFuseOverlayfsPath();
+        if (fuseOverlayfsPath) {
+            core.info(`Overriding storage mount_program with "fuse-overlayfs" in environment`);
+            storageOpts.push("--storage-opt");
+            storageOpts.push(`overlay.mount_program=${fuseOverlayfsPath}`);
+        }
+        else {
+            core.warning(`"fuse-overlayfs" is not found. Install it before running this action. `
+            + `For more detail see https://github.com/redhat-actions/buildah-build/issues/45`);
+        }
+    }
+    else {
+        core.info("Storage driver is not 'overlay', so not overriding storage configuration");
+    }
+    return storageOpts;
+}
+
+/**
+ * The programs which podman and buildah use to push images from the Docker image storage without pulling them.
+ */
+interface DockerDaemonTools {
+    /** The docker CLI, which looks up images in the Docker image storage without copying them */
+    readonly dockerPath: string | undefined;
+    /** Skopeo, which copies images straight from the Docker daemon to the registry */
+    readonly skopeo: ContainerEngine | undefined;
+}
+
+async function findDockerDaemonTools(name: Engines): Promise<DockerDaemonTools> {
+    const dockerPath = await io.which(Engines.DOCKER, false);
+    const skopeoPath = await io.which(Engines.SKOPEO, false);
+    if (dockerPath && skopeoPath) {
+        core.info(`Images in the Docker image storage are copied straight from the Docker daemon `
+            + `with skopeo at "${skopeoPath}"`);
+    }
+    else {
+        core.info(`"${Engines.DOCKER}" and "${Engines.SKOPEO}" are not both installed, `
+            + `so images in the Docker image storage are pulled into a temporary ${name} image storage to push them`);
+    }
+    return {
+        dockerPath: dockerPath || undefined,
+        skopeo: skopeoPath ? createSkopeoEngine(skopeoPath) : undefined,
+    };
+}
+
+/**
+ * Podman and buildah, which push from the containers storage.
+ * Images in the Docker image storage are looked up with the docker CLI and copied straight from the Docker daemon
+ * with skopeo. If those are not installed, or if the push has extra arguments, which are for podman or buildah,
+ * the images are pulled into a temporary containers storage to push them.
+ * The temporary storage is only created once an image is pulled into it, or a push from it is planned.
+ */
+function createContainersStorageEngine(
+    name: Engines,
+    enginePath: string,
+    commands: ContainersStorageCommands,
+): ContainerEngine {
+    const run = createRunner(enginePath);
+    let dockerStorageRoot: string | undefined;
+    let dockerStorageOpts: string[] | undefined;
+    let dockerStorageCreation: Promise<string[]> | undefined;
+    let dockerToolsSearch: Promise<DockerDaemonTools> | undefined;
+    let dockerTools: DockerDaemonTools | undefined;
+    // the images which were pulled into the temporary storage
+    const pulledImages: string[] = [];
+
+    const getDockerStorageOpts = async (): Promise<string[]> => {
+        // concurrent pushes may pull at the same time, so the storage is only created once
+        if (dockerStorageCreation == null) {
+            dockerStorageCreation = (async (): Promise<string[]> => {
+                dockerStorageRoot = await fs.mkdtemp(path.join(os.tmpdir(), `${name}-from-docker-`));
+                dockerStorageOpts = await createDockerStorage(name, dockerStorageRoot);
+                return dockerStorageOpts;
+            })();
+        }
+        return dockerStorageCreation;
+    };
+
+    const getDockerTools = async (): Promise<DockerDaemonTools> => {
+        if (dockerToolsSearch == null) {
+            dockerToolsSearch = findDockerDaemonTools(name);
+        }
+        dockerTools = await dockerToolsSearch;
+        return dockerTools;
+    };
+
+    /**
+     * Returns skopeo if it copies the image of the push straight from the Docker daemon.
+     * The tools have been looked for by then, since the image has been looked up before it is pushed.
+     */
+    const getDockerDaemonCopier = (request: PushRequest): ContainerEngine | undefined => {
+        if (request.storage !== ImageStorages.DOCKER || request.extraArgs.length > 0 || !dockerTools?.dockerPath) {
+            return undefined;
+        }
+        return dockerTools.skopeo;
+    };
+
+    const pullFromDocker = async (image: string): Promise<boolean> => {
+        if (pulledImages.includes(image)) {
+            return true;
+        }
+        const result = await run(
+            [ ...await getDockerStorageOpts(), "pull", `docker-daemon:${image}` ],
+            { ignoreReturnCode: true, failOnStdErr: false, group: true },
+        );
+        if (result.exitCode !== 0) {
+            return false;
+        }
+        pulledImages.push(image);
+        return true;
+    };
+
+    const getCompressionArgs = (compression: CompressionOptions): string[] => {
+        const args: string[] = [];
+        if (compression.format != null) {
+            args.push(`--compression-format=${compression.format}`);
+        }
+        if (compression.level != null) {
+            args.push(`--compression-level=${compression.level}`);
+        }
+        // the variants are added to manifest lists, which single images are wrapped in to push them
+        args.push(...compression.addFormats.map((format) => `--add-compression=${format}`));
+        return args;
+    };
+
+    const getPushCommands = async (request: PushRequest): Promise<string[][]> => {
+        const copier = getDockerDaemonCopier(request);
+        if (copier != null) {
+            return copier.getPushCommands(request);
+        }
+
+        const args: string[] = [];
+        let { source } = request;
+        if (request.storage === ImageStorages.DOCKER) {
+            args.push(...await getDockerStorageOpts());
+            // the images pulled from Docker are named like Docker Hub images
+            source = normalizeReference(source);
+        }
+        if (request.isManifest) {
+            args.push("manifest");
+        }
+        args.push(...[
+            "push",
+            "--quiet",
+            "--digestfile",
+            request.digestFile,
+            ...getCompressionArgs(request.compression),
+            source,
+            commands.getPushDestination(request),
+        ]);
+        // to push all the images referenced in the manifest
+        if (request.isManifest) {
+            args.push("--all");
+        }
+        if (request.extraArgs.length > 0) {
+            args.push(...request.extraArgs);
+        }
+        args.push(...getRegistryAccessArgs(request));
+        return [[ enginePath, ...args ]];
+    };
+
+    const imageExists = async (image: string, storage: ImageStorages): Promise<boolean> => {
+        if (storage === ImageStorages.CONTAINERS) {
+            return commands.imageExists(run, image);
+        }
+        const { dockerPath } = await getDockerTools();
+        if (dockerPath) {
+            return await inspectDockerImageId(dockerPath, image) != null;
+        }
+        return pullFromDocker(image);
+    };
+
+    const inspectImage = async (image: string, storage: ImageStorages): Promise<ImageInfo> => {
+        if (storage === ImageStorages.CONTAINERS) {
+            return commands.inspectImage(run, [], image);
+        }
+        const { dockerPath } = await getDockerTools();
+        if (dockerPath) {
+            return inspectDockerImage(dockerPath, image);
+        }
+        if (!await pullFromDocker(image)) {
+            throw new Error(`Failed to pull "${image}" from the Docker image storage`);
+        }
+        // the images pulled from Docker are named like Docker Hub images
+        return commands.inspectImage(run, await getDockerStorageOpts(), normalizeReference(image));
+    };
+
+    return {
+        name,
+        path: enginePath,
+        storages: [ ImageStorages.CONTAINERS, ImageStorages.DOCKER ],
+
+        imageExists,
+        manifestExists: (image) => commands.manifestExists(run, image),
+        getImageId: async (image, storage) => {
+            if (storage === ImageStorages.DOCKER) {
+                const { dockerPath } = await getDockerTools();
+                if (dockerPath) {
+                    return inspectDockerImageId(dockerPath, image);
+                }
+            }
+            // without the docker CLI, the image is pulled into the temporary storage to look it up
+            return await imageExists(image, storage) ? (await inspectImage(image, storage)).id : undefined;
+        },
+        inspectImage,
+        getCompressionArgs,
+        getPushCommands,
+        push: async (request, execOptions) => {
+            const copier = getDockerDaemonCopier(request);
+            if (copier != null) {
+                return copier.push(request, execOptions);
+            }
+            if (request.storage === ImageStorages.DOCKER && !await pullFromDocker(request.source)) {
+                throw new Error(`Failed to pull "${request.source}" from the Docker image storage`);
+            }
+            return runPushCommands(await getPushCommands(request), request.digestFile, execOptions);
+        },
+        exportImage: async (request, layoutDir) => {
+            const copier = getDockerDaemonCopier(request);
+            if (copier != null) {
+                await copier.exportImage(request, layoutDir);
+                return;
+            }
+            if (request.storage === ImageStorages.DOCKER && !await pullFromDocker(request.source)) {
+                throw new Error(`Failed to pull "${request.source}" from the Docker image storage`);
+            }
+            const exportCommands = await getPushCommands({ ...request, destination: `oci:${layoutDir}` });
+            await runPushCommands(exportCommands, request.digestFile, { group: true });
+        },
+
+        createManifestList: async (list) => {
+            await run([ "manifest", "create", list ]);
+        },
+        addToManifestList: async (list, reference, platform, access) => {
+            const args = [ "manifest", "add", ...getRegistryAccessArgs(access) ];
+            if (platform != null) {
+                args.push("--os", platform.os, "--arch", platform.architecture);
+                if (platform.variant) {
+                    args.push("--variant", platform.variant);
+                }
+            }
+            await run([ ...args, list, reference ], { group: true });
+        },
+        inspectManifestList: async (list) => {
+            const result = await run([ "manifest", "inspect", list ], { silent: true });
+            return JSON.parse(result.stdout) as ImageIndex;
+        },
+        copyManifestList: async (list, destination, access) => {
+            const args = [ "manifest", "push", "--all", "--quiet", ...getRegistryAccessArgs(access) ];
+            await run([ ...args, list, destination ], { group: true });
+        },
+        annotateManifestList: async (list, annotations) => {
+            const args = Object.entries(annotations).flatMap(([ key, value ]) => [ "--annotation", `${key}=${value}` ]);
+            await run([ "manifest", "annotate", "--index", ...args, list ]);
+        },
+        removeManifestList: async (list) => {
+            await run([ "manifest", "rm", list ]);
+        },
+
+        cleanup: async () => {
+            if (dockerStorageRoot && dockerStorageOpts) {
+                try {
+                    core.info(`Removing temporary ${name} image storage for pulling from Docker daemon`);
+                    await run([ ...dockerStorageOpts, "rmi", "-a", "-f" ]);
+                    await fs.rm(dockerStorageRoot, { recursive: true });
+                }
+                catch (err) {
+                    core.warning(`Failed to remove ${name} image storage ${dockerStorageRoot}: ${err}`);
+                }
+            }
+        },
+    };
+}
+
+interface PodmanImageInspect {
+    Id: string;
+    Created: string;
+    Os?: string;
+    Architecture?: string;
+    Variant?: string;
+    Config?: InspectedConfig;
+    Annotations?: Record<string, string> | null;
+}
+
+const PODMAN_COMMANDS: ContainersStorageCommands = {
+    manifestExists: async (run, image) => {
+        const result = await run([ "manifest", "exists", image ], { ignoreReturnCode: true, group: true });
+        return result.exitCode === 0;
+    },
+    imageExists: async (run, image) => {
+        const result = await run([ "image", "exists", image ], { ignoreReturnCode: true });
+        return result.exitCode === 0;
+    },
+    inspectImage: async (run, storageOpts, image) => {
+        const result = await run([ ...storageOpts, "image", "inspect", image, "--format", "json" ], { silent: true });
+        const [ inspect ] = JSON.parse(result.stdout) as PodmanImageInspect[];
+        return {
+            id: `sha256:${inspect.Id.replace(/^sha256:/, "")}`,
+            created: new Date(inspect.Created),
+            platform: toPlatform({ os: inspect.Os, architecture: inspect.Architecture, variant: inspect.Variant }),
+            labels: inspect.Config?.Labels ?? {},
+            user: inspect.Config?.User ?? "",
+            annotations: inspect.Annotations ?? {},
+        };
+    },
+    getPushDestination: (request) => request.destination,
+};
+
+interface BuildahImageInspect {
+    FromImageID: string;
+    OCIv1: InspectedOciConfig;
+    ImageAnnotations?: Record<string, string> | null;
+}
+
+const BUILDAH_COMMANDS: ContainersStorageCommands = {
+    manifestExists: async (run, image) => {
+        const result = await run([ "manifest", "inspect", image ], { ignoreReturnCode: true, silent: true });
+        return result.exitCode === 0;
+    },
+    imageExists: async (run, image) => {
+        const result = await run([ "inspect", "--type", "image", image ], { ignoreReturnCode: true, silent: true });
+        return result.exitCode === 0;
+    },
+    inspectImage: async (run, storageOpts, image) => {
+        const result = await run([ ...storageOpts, "inspect", "--type", "image", image ], { silent: true });
+        const inspect = JSON.parse(result.stdout) as BuildahImageInspect;
+        return {
+            id: `sha256:${inspect.FromImageID}`,
+            created: new Date(inspect.OCIv1.created ?? 0),
+            platform: toPlatform(inspect.OCIv1),
+            labels: inspect.OCIv1.config?.Labels ?? {},
+            user: inspect.OCIv1.config?.User ?? "",
+            annotations: inspect.ImageAnnotations ?? {},
+        };
+    },
+    // unlike "buildah push", "buildah manifest push" needs the transport of the destination
+    getPushDestination: (request) => (request.isManifest ? `docker://${request.destination}` : request.destination),
+};
+
+function getSkopeoReference(image: string, storage: ImageStorages): string {
+    return storage === ImageStorages.CONTAINERS ? `containers-storage:${image}` : `docker-daemon:${image}`;
+}
+
+/**
+ * Skopeo, which copies the images straight from the containers storage or from the Docker daemon.
+ * Images in the Docker image storage are looked up with the docker CLI if it is installed,
+ * since skopeo reads them by exporting the whole image from the Docker daemon.
+ */
+function createSkopeoEngine(enginePath: string): ContainerEngine {
+    const run = createRunner(enginePath);
+    let dockerSearch: Promise<string> | undefined;
+
+    const getDockerPath = async (storage: ImageStorages): Promise<string | undefined> => {
+        if (storage !== ImageStorages.DOCKER) {
+            return undefined;
+        }
+        dockerSearch ??= io.which(Engines.DOCKER, false);
+        return (await dockerSearch) || undefined;
+    };
+
+    const getCompressionArgs = (compression: CompressionOptions): string[] => {
+        if (compression.addFormats.length > 0) {
+            throw new Error(`Engine "${Engines.SKOPEO}" cannot add compression variants to manifest lists. `
+                + `Set "${Inputs.ENGINE}" to "${Engines.PODMAN}" or "${Engines.BUILDAH}".`);
+        }
+        const args: string[] = [];
+        if (compression.format != null) {
+            args.push(`--dest-compress-format=${compression.format}`);
+        }
+        if (compression.level != null) {
+            args.push(`--dest-compress-level=${compression.level}`);
+        }
+        return args;
+    };
+
+    const getCopyCommand = (request: PushRequest, destination: string): string[] => {
+        const args = [ "copy", "--quiet", "--digestfile", request.digestFile ];
+        args.push(...getCompressionArgs(request.compression));
+        if (request.isManifest) {
+            args.push("--all");
+        }
+        args.push(...getRegistryAccessArgs(request, "dest-"));
+        args.push(...request.extraArgs);
+        args.push(getSkopeoReference(request.source, request.storage), destination);
+        return [ enginePath, ...args ];
+    };
+
+    const getPushCommands = async (request: PushRequest): Promise<string[][]> => [
+        getCopyCommand(request, `docker://${request.destination}`),
+    ];
+
+    return {
+        ...getUnsupportedManifestListMethods(Engines.SKOPEO),
+        name: Engines.SKOPEO,
+        path: enginePath,
+        storages: [ ImageStorages.CONTAINERS, ImageStorages.DOCKER ],
+
+        imageExists: async (image, storage) => {
+            const dockerPath = await getDockerPath(storage);
+            if (dockerPath != null) {
+                return await inspectDockerImageId(dockerPath, image) != null;
+            }
+            const result = await run([ "inspect", "--raw", getSkopeoReference(image, storage) ], {
+                ignoreReturnCode: true,
+                silent: true,
+            });
+            return result.exitCode === 0;
+        },
+        manifestExists: async (image) => {
+            const result = await run([ "inspect", "--raw", getSkopeoReference(image, ImageStorages.CONTAINERS) ], {
+                ignoreReturnCode: true,
+                silent: true,
+            });
+            return result.exitCode === 0 && (JSON.parse(result.stdout) as Partial<ImageIndex>).manifests != null;
+        },
+        getImageId: async (image, storage) => {
+            const dockerPath = await getDockerPath(storage);
+            if (dockerPath != null) {
+                return inspectDockerImageId(dockerPath, image);
+            }
+            const result = await run([ "inspect", "--raw", getSkopeoReference(image, storage) ], {
+                ignoreReturnCode: true,
+                silent: true,
+            });
+            if (result.exitCode !== 0) {
+                return undefined;
+            }
+            const manifest = JSON.parse(result.stdout) as Partial<ImageManifest & ImageIndex>;
+            // a manifest list has no config, so it is identified by the digest of the list itself,
+            // which skopeo prints followed by a newline
+            return manifest.config?.digest ?? sha256Digest(result.stdout.replace(/\n$/, ""));
+        },
+        inspectImage: async (image, storage) => {
+            const dockerPath = await getDockerPath(storage);
+            if (dockerPath != null) {
+                return inspectDockerImage(dockerPath, image);
+            }
+            const reference = getSkopeoReference(image, storage);
+            const manifest = await run([ "inspect", "--raw", reference ], { silent: true });
+            const config = await run([ "inspect", "--config", reference ], { silent: true });
+            const inspect = JSON.parse(config.stdout) as InspectedOciConfig;
+            const imageManifest = JSON.parse(manifest.stdout) as ImageManifest;
+            return {
+                id: imageManifest.config.digest,
+                created: new Date(inspect.created ?? 0),
+                platform: toPlatform(inspect),
+                labels: inspect.config?.Labels ?? {},
+                user: inspect.config?.User ?? "",
+                annotations: imageManifest.annotations ?? {},
+            };
+        },
+        getCompressionArgs,
+        getPushCommands,
+        push: async (request, execOptions) => runPushCommands(
+            await getPushCommands(request),
+            request.digestFile,
+            execOptions,
+        ),
+        exportImage: async (request, layoutDir) => {
+            await runPushCommands([ getCopyCommand(request, `oci:${layoutDir}`) ], request.digestFile, { group: true });
+        },
+        cleanup: async () => {
+            // skopeo reads the images where they are, so there is nothing to clean up
+        },
+    };
+}
+
+/**
+ * Docker, which tags the image as the destination and pushes it from the Docker image storage.
+ */
+function createDockerEngine(enginePath: string): ContainerEngine {
+    const run = createRunner(enginePath);
+
+    const getCompressionArgs = (compression: CompressionOptions): string[] => {
+        if (isCompressionSet(compression)) {
+            throw new Error(`Engine "${Engines.DOCKER}" cannot set the compression of the layers it pushes. `
+                + `Set "${Inputs.ENGINE}" to "${Engines.PODMAN}", "${Engines.BUILDAH}" or "${Engines.SKOPEO}".`);
+        }
+        return [];
+    };
+
+    const getPushCommands = async (request: PushRequest): Promise<string[][]> => {
+        getCompressionArgs(request.compression);
+        if (request.isManifest) {
+            throw new Error(`Engine "${Engines.DOCKER}" cannot push manifest lists. `
+                + `Set "${Inputs.ENGINE}" to "${Engines.PODMAN}" or "${Engines.BUILDAH}".`);
+        }
+        // docker reads the credentials from the "config.json" in the directory given by "--config"
+        const configArgs = request.authFile ? [ "--config", path.dirname(request.authFile) ] : [];
+        const commands: string[][] = [];
+        // the image is only tagged if it does not have the name of the destination already
+        if (normalizeReference(request.source) !== normalizeReference(request.destination)) {
+            commands.push([ enginePath, ...configArgs, "tag", request.source, request.destination ]);
+        }
+        commands.push([ enginePath, ...configArgs, "push", ...request.extraArgs, request.destination ]);
+        return commands;
+    };
+
+    return {
+        ...getUnsupportedManifestListMethods(Engines.DOCKER),
+        name: Engines.DOCKER,
+        path: enginePath,
+        storages: [ ImageStorages.DOCKER ],
+
+        imageExists: async (image, storage) => storage === ImageStorages.DOCKER
+            && await inspectDockerImageId(enginePath, image) != null,
+        // docker only has manifest lists in the registry
+        manifestExists: async () => false,
+        getImageId: async (image, storage) => (storage === ImageStorages.DOCKER
+            ? inspectDockerImageId(enginePath, image)
+            : undefined),
+        inspectImage: (image) => inspectDockerImage(enginePath, image),
+        getCompressionArgs,
+        getPushCommands,
+        push: async (request, execOptions) => {
+            if (request.tlsVerify === "false") {
+                core.warning(`Docker cannot skip TLS verification for a push. `
+                    + `Add the registry to the "insecure-registries" of the Docker daemon instead.`);
+            }
+            if (request.authFile) {
+                await writeDockerConfig(request.authFile);
+            }
+
+            const commands = await getPushCommands(request);
+            const isTagged = commands.length > 1;
+            // the destination may already be a tag in the Docker image storage, which is kept
+            const previousId = isTagged ? await inspectDockerImageId(enginePath, request.destination) : undefined;
+            let pushResult: ExecResult | undefined;
+            try {
+                for (const [ executable, ...args ] of commands) {
+                    pushResult = await execute(executable, args, execOptions);
+                }
+            }
+            finally {
+                if (isTagged && previousId == null) {
+                    // remove the tag again, which leaves the image itself in place
+                    await run([ "image", "rm", request.destination ], { ignoreReturnCode: true, silent: true });
+                }
+                else if (isTagged && previousId != null) {
+                    // point the tag back to the image it was before
+                    await run([ "tag", previousId, request.destination ], { ignoreReturnCode: true, silent: true });
+                }
+            }
+
+            // eg. "latest: digest: sha256:... size: 1234"
+            const digest = /digest: (sha256:[0-9a-f]{64})/.exec(pushResult?.stdout ?? "")?.[1];
+            if (digest == null) {
+                core.warning(`Failed to read the digest of "${request.destination}" from the output of docker push`);
+                return undefined;
+            }
+            await fs.writeFile(request.digestFile, digest);
+            return digest;
+        },
+        exportImage: async () => {
+            throw new Error(`Engine "${Engines.DOCKER}" cannot copy images to OCI layouts. `
+                + `Set "${Inputs.ENGINE}" to "${Engines.PODMAN}", "${Engines.BUILDAH}" or "${Engines.SKOPEO}".`);
+        },
+        cleanup: async () => {
+            // the tags are removed after each push, so there is nothing to clean up
+        },
+    };
+}
+
+const ENGINE_FACTORIES: Record<Engines, (enginePath: string) => ContainerEngine> = {
+    [Engines.PODMAN]: (enginePath) => createContainersStorageEngine(Engines.PODMAN, enginePath, PODMAN_COMMANDS),
+    [Engines.BUILDAH]: (enginePath) => createContainersStorageEngine(Engines.BUILDAH, enginePath, BUILDAH_COMMANDS),
+    [Engines.SKOPEO]: createSkopeoEngine,
+    [Engines.DOCKER]: createDockerEngine,
+};
+
+/**
+ * Returns the engine chosen by the "engine" input.
+ * "auto" uses the first engine which is installed, in the order podman, buildah, skopeo, docker.
+ */
+export async function findEngine(): Promise<ContainerEngine> {
+    const engineInput = core.getInput(Inputs.ENGINE) || AUTO_ENGINE;
+    const engines = Object.values(Engines) as string[];
+    if (engineInput !== AUTO_ENGINE && !engines.includes(engineInput)) {
+        throw new Error(`Input "${Inputs.ENGINE}" must be one of "${[ AUTO_ENGINE, ...engines ].join(", ")}", `
+            + `but it is "${engineInput}"`);
+    }
+
+    const candidates = (engineInput === AUTO_ENGINE ? engines : [ engineInput ]) as Engines[];
+    for (const name of candidates) {
+        const enginePath = await io.which(name, engineInput !== AUTO_ENGINE);
+        if (enginePath) {
+            await execute(enginePath, name === Engines.SKOPEO ? [ "--version" ] : [ "version" ], { group: true });
+            return ENGINE_FACTORIES[name](enginePath);
+        }
+    }
+    throw new Error(`None of "${engines.join(", ")}" is installed. `
+        + `Install one of them to push from local image storage, or set "${Inputs.SOURCE}" to push without them.`);
+}
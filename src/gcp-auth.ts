@@ -0,0 +1,189 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import { httpRequest, httpRequestJson, postForm } from "./http";
+import { RegistryCredentials } from "./registry-client";
+
+// eg. gcr.io, eu.gcr.io, or europe-west1-docker.pkg.dev
+const GCP_REGISTRY = /((^|\.)gcr\.io|-docker\.pkg\.dev)$/;
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+// the username with which the registries accept an OAuth2 access token as the password
+const ACCESS_TOKEN_USERNAME = "oauth2accesstoken";
+
+interface ServiceAccountKey {
+    type: "service_account";
+    client_email: string;
+    private_key: string;
+    token_uri?: string;
+}
+
+/**
+ * Credentials for workload identity federation, which exchange a token of another identity provider.
+ */
+interface ExternalAccount {
+    type: "external_account";
+    audience: string;
+    subject_token_type: string;
+    token_url: string;
+    service_account_impersonation_url?: string;
+    credential_source: {
+        file?: string;
+        url?: string;
+        headers?: Record<string, string>;
+        format?: {
+            type: "text" | "json";
+            subject_token_field_name?: string;
+        };
+    };
+}
+
+type GoogleCredentials = ServiceAccountKey | ExternalAccount;
+
+interface AccessTokenResponse {
+    access_token: string;
+}
+
+export function isGcpRegistry(registry: string): boolean {
+    return GCP_REGISTRY.test(registry);
+}
+
+function base64Url(data: Buffer | string): string {
+    return Buffer.from(data).toString("base64url");
+}
+
+/**
+ * Get an access token by signing a JWT assertion with the private key of the service account.
+ */
+async function getServiceAccountToken(key: ServiceAccountKey, tokenUrl: string): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const claims = base64Url(JSON.stringify({
+        iss: key.client_email,
+        scope: CLOUD_PLATFORM_SCOPE,
+        aud: key.token_uri ?? DEFAULT_TOKEN_URI,
+        iat: now,
+        exp: now + 3600,
+    }));
+    const signature = crypto.sign("sha256", Buffer.from(`${header}.${claims}`), key.private_key);
+
+    core.info(`Requesting an access token for service account "${key.client_email}"`);
+    const response = await postForm<AccessTokenResponse>(tokenUrl, {
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: `${header}.${claims}.${base64Url(signature)}`,
+    });
+    return response.access_token;
+}
+
+/**
+ * Read the token of the other identity provider, from a file or from a URL, as the credential source says.
+ */
+async function getSubjectToken(source: ExternalAccount["credential_source"]): Promise<string> {
+    let content: string;
+    if (source.file) {
+        content = await fs.readFile(source.file, "utf-8");
+    }
+    else if (source.url) {
+        const response = await httpRequest(source.url, { method: "GET", headers: source.headers });
+        if (response.statusCode !== 200) {
+            throw new Error(`Failed to read the subject token from "${source.url}": `
+                + `status ${response.statusCode} ${response.statusMessage}`);
+        }
+        content = response.body.toString();
+    }
+    else {
+        throw new Error(`Only "file" and "url" credential sources are supported`);
+    }
+
+    let token = content.trim();
+    if (source.format?.type === "json") {
+        const fieldName = source.format.subject_token_field_name ?? "";
+        token = (JSON.parse(content) as Record<string, string>)[fieldName];
+        if (!token) {
+            throw new Error(`The subject token has no "${fieldName}" field`);
+        }
+    }
+    core.setSecret(token);
+    return token;
+}
+
+/**
+ * Exchange the token of the other identity provider for an access token,
+ * which is then exchanged for an access token of the impersonated service account, if there is one.
+ */
+async function getExternalAccountToken(
+    account: ExternalAccount,
+    endpoints: Partial<Record<string, string>>,
+): Promise<string> {
+    core.info(`Exchanging a token for "${account.audience}"`);
+    const subjectToken = await getSubjectToken(account.credential_source);
+    const stsResponse = await postForm<AccessTokenResponse>(endpoints["gcp-sts"] ?? account.token_url, {
+        grant_type: "urn:ietf:params:oauth:grant-type:token-exchange",
+        audience: account.audience,
+        scope: CLOUD_PLATFORM_SCOPE,
+        requested_token_type: "urn:ietf:params:oauth:token-type:access_token",
+        subject_token: subjectToken,
+        subject_token_type: account.subject_token_type,
+    });
+    core.setSecret(stsResponse.access_token);
+
+    const impersonationUrl = endpoints["gcp-iam"] ?? account.service_account_impersonation_url;
+    if (!impersonationUrl) {
+        return stsResponse.access_token;
+    }
+    const response = await httpRequestJson<{ accessToken: string }>(impersonationUrl, {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer ${stsResponse.access_token}`,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ scope: [ CLOUD_PLATFORM_SCOPE ], lifetime: "3600s" }),
+    });
+    return response.accessToken;
+}
+
+/**
+ * Get an access token for GCR or Artifact Registry from the credentials file of GOOGLE_APPLICATION_CREDENTIALS.
+ * Returns undefined if there is no credentials file.
+ *
+ * @param endpoints Overrides of the "gcp-oauth2", "gcp-sts" and "gcp-iam" endpoints
+ */
+export async function getGcpCredentials(
+    registry: string,
+    endpoints: Partial<Record<string, string>>,
+): Promise<RegistryCredentials | undefined> {
+    const credentialsFile = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    if (!isGcpRegistry(registry) || !credentialsFile) {
+        return undefined;
+    }
+
+    let credentials: GoogleCredentials;
+    try {
+        credentials = JSON.parse(await fs.readFile(credentialsFile, "utf-8")) as GoogleCredentials;
+    }
+    catch (err) {
+        throw new Error(`Failed to read Google credentials file "${credentialsFile}": ${err}`);
+    }
+
+    const supportedTypes = [ "service_account", "external_account" ];
+    if (!supportedTypes.includes(credentials.type)) {
+        throw new Error(`Google credentials of type "${credentials.type}" are not supported`);
+    }
+
+    let accessToken: string;
+    if (credentials.type === "service_account") {
+        accessToken = await getServiceAccountToken(
+            credentials,
+            endpoints["gcp-oauth2"] ?? credentials.token_uri ?? DEFAULT_TOKEN_URI,
+        );
+    }
+    else {
+        accessToken = await getExternalAccountToken(credentials, endpoints);
+    }
+    return { username: ACCESS_TOKEN_USERNAME, password: accessToken };
+}
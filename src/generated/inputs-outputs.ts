@@ -1,5 +1,85 @@
 // This file was auto-generated by action-io-generator. Do not edit by hand!
 export enum Inputs {
+    /**
+     * Compression formats of variants of each image to add to the pushed manifest list, separated by whitespace.
+     * For example, "zstd" with the "compression-format" "gzip" pushes both, for clients which cannot read zstd.
+     * A single image is pushed as a manifest list of only that image, which the variants are added to.
+     * Required: false
+     * Default: None.
+     */
+    ADD_COMPRESSION = "add-compression",
+    /**
+     * Annotations to add to the pushed manifest or manifest list, in the form "key=value".
+     * Separate annotations by newline.
+     * Required: false
+     * Default: None.
+     */
+    ANNOTATIONS = "annotations",
+    /**
+     * in-toto attestation files, either statements or DSSE envelopes, to attach to the pushed images as OCI referrers.
+     * Separate files by newline.
+     * Required: false
+     * Default: None.
+     */
+    ATTESTATIONS = "attestations",
+    /**
+     * Path to a docker config.json or a containers auth.json to read credentials from.
+     * Its credential helpers are used too.
+     * By default, the auth files in the default locations of podman and docker are read.
+     * The "username" and "password" inputs take precedence.
+     * Required: false
+     * Default: None.
+     */
+    AUTH_FILE = "auth-file",
+    /**
+     * Add the "org.opencontainers.image" annotations "source", "revision", "created" and "version",
+     * and the URL of the workflow run, to the pushed manifest or manifest list.
+     * Required: false
+     * Default: "false"
+     */
+    AUTO_ANNOTATIONS = "auto-annotations",
+    /**
+     * How to push the image. "podman" pushes from the Podman or Docker image storage with the "engine".
+     * "native" pushes the "source" with the OCI Distribution API, without needing podman.
+     * "auto" uses "native" if "source" is set, and "podman" otherwise.
+     * Required: false
+     * Default: "auto"
+     */
+    CLIENT = "client",
+    /**
+     * Get short-lived credentials for ECR, GCR, Artifact Registry and ACR registries
+     * from the cloud credentials in the environment, when there are no other credentials for the registry.
+     * Required: false
+     * Default: "true"
+     */
+    CLOUD_AUTH = "cloud-auth",
+    /**
+     * URLs of token exchange endpoints to use instead of the default ones, one "<name>=<url>" per line.
+     * The names are "aws-sts", "aws-ecr", "gcp-oauth2", "gcp-sts", "gcp-iam", "azure-token" and "azure-acr".
+     * Required: false
+     * Default: None.
+     */
+    CLOUD_AUTH_ENDPOINTS = "cloud-auth-endpoints",
+    /**
+     * The compression of the pushed layers: "gzip", "zstd" or "zstd:chunked".
+     * Layers are recompressed if they are stored with another compression. By default, the engine's default is used.
+     * Required: false
+     * Default: None.
+     */
+    COMPRESSION_FORMAT = "compression-format",
+    /**
+     * The level of the "compression-format", from 1 to 9 for "gzip", and from 1 to 20 for "zstd"
+     * Required: false
+     * Default: None.
+     */
+    COMPRESSION_LEVEL = "compression-level",
+    /**
+     * Maximum number of pushes to run at the same time.
+     * The first tag for each registry is always pushed on its own, since it uploads the image layers.
+     * Required: false
+     * Default: "1"
+     */
+    CONCURRENCY = "concurrency",
     /**
      * After copying the image, write the digest of the resulting image to the file.
      * By default, the filename will be determined from the image and tag.
@@ -9,7 +89,21 @@ export enum Inputs {
      */
     DIGESTFILE = "digestfile",
     /**
-     * Extra args to be passed to podman push.
+     * Check everything and log the pushes, without pushing anything.
+     * The outputs are set as they would be, except for digests which are only known once pushed.
+     * Required: false
+     * Default: "false"
+     */
+    DRY_RUN = "dry-run",
+    /**
+     * The program which pushes from the Podman or Docker image storage: "podman", "buildah", "skopeo" or "docker".
+     * "auto" uses the first of them which is installed, in that order.
+     * Required: false
+     * Default: "auto"
+     */
+    ENGINE = "engine",
+    /**
+     * Extra args to be passed to the push command of the engine.
      * Separate arguments by newline. Do not use quotes - @actions/exec will do the quoting for you.
      * Required: false
      * Default: None.
@@ -21,21 +115,165 @@ export enum Inputs {
      * Default: None.
      */
     IMAGE = "image",
+    /**
+     * Whether tags which already exist in the registry may be overwritten.
+     * "always" allows it, and "never" fails if any tag exists.
+     * "only-if-same-digest" fails if any tag points to a different image.
+     * Required: false
+     * Default: "always"
+     */
+    OVERWRITE = "overwrite",
     /**
      * Password to use as credential to authenticate to the registry
      * Required: false
      * Default: None.
      */
     PASSWORD = "password",
+    /**
+     * Images of one platform each to assemble into a manifest list, which is pushed instead of "image".
+     * One image per line, from the Podman image storage, a registry, or with a transport such as "docker-daemon:".
+     * The platform of each image is read from its config.
+     * Required: false
+     * Default: None.
+     */
+    PLATFORM_IMAGES = "platform-images",
+    /**
+     * Platforms of the manifest list to push, such as "linux/amd64, linux/arm64", instead of all of them.
+     * The step fails if the manifest list has no image for a platform.
+     * Required: false
+     * Default: None.
+     */
+    PLATFORMS = "platforms",
+    /**
+     * Rules which the images must follow to be pushed, checked before anything is pushed.
+     * Either the path to a YAML file or the YAML itself, with the rules "max-size", "required-labels",
+     * "forbid-root-user" and "allowed-base-digests".
+     * Required: false
+     * Default: None.
+     */
+    POLICY = "policy",
+    /**
+     * Globs of tags which may only be overwritten with the same image, such as "v*".
+     * Separate globs by whitespace.
+     * Required: false
+     * Default: None.
+     */
+    PROTECTED_TAGS = "protected-tags",
+    /**
+     * Registries to push the image to, one per line, as an alternative to "registry".
+     * Each line is a registry followed by optional space-separated key=value options:
+     * "username", "password" and "tls-verify". Options that are not set fall back to the
+     * "username", "password" and "tls-verify" inputs.
+     * Required: false
+     * Default: None.
+     */
+    REGISTRIES = "registries",
     /**
      * Hostname and optional namespace to push the image to (eg. quay.io/username or quay.io)
      * Required: false
      * Default: None.
      */
     REGISTRY = "registry",
+    /**
+     * After pushing, write the "results" output to this JSON file.
+     * Required: false
+     * Default: None.
+     */
+    RESULTS_FILE = "results-file",
+    /**
+     * Number of times to attempt each push before failing.
+     * Only network errors, server errors (5xx) and rate limiting (429) are retried.
+     * Required: false
+     * Default: "3"
+     */
+    RETRY_ATTEMPTS = "retry-attempts",
+    /**
+     * Factor by which the retry delay is multiplied after each failed attempt
+     * Required: false
+     * Default: "2"
+     */
+    RETRY_BACKOFF = "retry-backoff",
+    /**
+     * Delay in seconds before the first retry of a failed push
+     * Required: false
+     * Default: "5"
+     */
+    RETRY_DELAY = "retry-delay",
+    /**
+     * Fraction between 0 and 1 by which each retry delay is randomly varied
+     * Required: false
+     * Default: "0.2"
+     */
+    RETRY_JITTER = "retry-jitter",
+    /**
+     * SPDX or CycloneDX files to attach to the pushed images as OCI referrers.
+     * Separate files by newline.
+     * Required: false
+     * Default: None.
+     */
+    SBOMS = "sboms",
+    /**
+     * Private key to sign the pushed images with, in the same format as "cosign sign".
+     * Either the path to a PEM file or the PEM itself. EC (P-256), RSA and Ed25519 keys are supported.
+     * Keys encrypted by cosign are not supported, but PKCS#8 keys may be encrypted with "sign-key-password".
+     * Required: false
+     * Default: None.
+     */
+    SIGN_KEY = "sign-key",
+    /**
+     * Password to decrypt the "sign-key"
+     * Required: false
+     * Default: None.
+     */
+    SIGN_KEY_PASSWORD = "sign-key-password",
+    /**
+     * Check each tag in the registry before pushing, and skip the tags which already point to the same image.
+     * If the registry has the image under another tag, the tag is pointed to it without pushing the image again.
+     * Required: false
+     * Default: "false"
+     */
+    SKIP_EXISTING = "skip-existing",
+    /**
+     * Image to push instead of an image from the Podman or Docker image storage, in the form
+     * "transport:path[:reference]". The transport is one of "oci", "oci-archive" or "docker-archive".
+     * A path without a transport is an OCI layout directory or a docker-archive file.
+     * An image in a registry, in the form "docker://registry/repository[:tag|@digest]", is copied registry-side.
+     * Required: false
+     * Default: None.
+     */
+    SOURCE = "source",
+    /**
+     * Password or token to pull a "docker://" source with.
+     * Required: false
+     * Default: None.
+     */
+    SOURCE_PASSWORD = "source-password",
+    /**
+     * Which image storage to push a tag from, when both the Podman and the Docker image storage have it,
+     * but as different images: "podman", "docker", or "newest" for the image which was created last.
+     * Tags which are the same image in both are pushed from the Podman image storage.
+     * Required: false
+     * Default: "newest"
+     */
+    SOURCE_PREFERENCE = "source-preference",
+    /**
+     * Verify TLS certificates when pulling a "docker://" source.
+     * If "false", the source registry is contacted over HTTP if it does not serve HTTPS.
+     * Required: false
+     * Default: "true"
+     */
+    SOURCE_TLS_VERIFY = "source-tls-verify",
+    /**
+     * Username to pull a "docker://" source with.
+     * By default, the credentials of the source registry are found like those of the destinations.
+     * Required: false
+     * Default: None.
+     */
+    SOURCE_USERNAME = "source-username",
     /**
      * 'The tag or tags of the image/manifest to push.
-     * For multiple tags, separate by whitespace. For example, "latest v1"'
+     * For multiple tags, separate by whitespace. For example, "latest v1".
+     * Tags may have templates filled from the workflow run, such as "sha-{{short-sha}}" or "{{semver}}"'
      * Required: false
      * Default: "latest"
      */
@@ -55,12 +293,31 @@ export enum Inputs {
 }
 
 export enum Outputs {
+    /**
+     * A JSON array of the digests of the artifacts attached for the "attestations", in the same order
+     * Required: false
+     * Default: None.
+     */
+    ATTESTATION_DIGESTS = "attestation-digests",
+    /**
+     * A JSON array of the compression formats which the layers were pushed with, the "compression-format" first,
+     * followed by the "add-compression" formats. Empty if the layers were pushed with the default compression.
+     * Required: false
+     * Default: None.
+     */
+    COMPRESSION_FORMATS = "compression-formats",
     /**
      * The pushed image/manifest digest, as written to the "digestfile"
      * Required: false
      * Default: None.
      */
     DIGEST = "digest",
+    /**
+     * A JSON array of registry paths which were pushed or tagged
+     * Required: false
+     * Default: None.
+     */
+    PUSHED_TAGS = "pushed-tags",
     /**
      * The first element of registry-paths.
      * Required: false
@@ -73,4 +330,29 @@ export enum Outputs {
      * Default: None.
      */
     REGISTRY_PATHS = "registry-paths",
+    /**
+     * A JSON object with a key for each registry path which was pushed, whose value has the digest, media type,
+     * source storage, size, status and, for manifest lists, the digest of each platform.
+     * Required: false
+     * Default: None.
+     */
+    RESULTS = "results",
+    /**
+     * A JSON array of the digests of the artifacts attached for the "sboms", in the same order
+     * Required: false
+     * Default: None.
+     */
+    SBOM_DIGESTS = "sbom-digests",
+    /**
+     * A JSON array of references to the signatures pushed, if "sign-key" is set
+     * Required: false
+     * Default: None.
+     */
+    SIGNATURES = "signatures",
+    /**
+     * A JSON array of registry paths which were skipped, since they already pointed to the image
+     * Required: false
+     * Default: None.
+     */
+    SKIPPED_TAGS = "skipped-tags",
 }
@@ -0,0 +1,135 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { createWriteStream } from "fs";
+import * as http from "http";
+import * as https from "https";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// how long a request may go without sending or receiving any data, so that a stalled server fails the request
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+export interface HttpRequestOptions {
+    method: string;
+    headers?: Record<string, string>;
+    /**
+     * The request body. Streams are passed as a function creating the stream,
+     * so that the request can be sent again, eg. after authenticating.
+     */
+    body?: Buffer | string | (() => Readable);
+    /** Set to false to accept any TLS certificate */
+    tlsVerify?: boolean;
+    /** Write the body of a 200 response to this file instead of reading it into memory, eg. for blobs */
+    outputFile?: string;
+    /** Fail the request if no data is sent or received for this long. Defaults to 120 seconds. */
+    timeoutSeconds?: number;
+}
+
+export interface HttpResponse {
+    statusCode: number;
+    statusMessage: string;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+/**
+ * Send an HTTP or HTTPS request, and read the whole response body.
+ * Responses with error status codes are resolved, not rejected; only network errors and timeouts reject.
+ */
+export async function httpRequest(url: string, options: HttpRequestOptions): Promise<HttpResponse> {
+    const parsedUrl = new URL(url);
+    const transport = parsedUrl.protocol === "http:" ? http : https;
+    const requestOptions: https.RequestOptions = {
+        method: options.method,
+        headers: options.headers,
+        rejectUnauthorized: options.tlsVerify !== false,
+    };
+
+    return new Promise<HttpResponse>((resolve, reject) => {
+        const request = transport.request(parsedUrl, requestOptions, (response) => {
+            if (options.outputFile != null && response.statusCode === 200) {
+                pipeline(response, createWriteStream(options.outputFile)).then(() => resolve({
+                    statusCode: 200,
+                    statusMessage: response.statusMessage ?? "",
+                    headers: response.headers,
+                    body: Buffer.alloc(0),
+                }), reject);
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            response.on("data", (chunk: Buffer) => chunks.push(chunk));
+            response.on("error", reject);
+            response.on("end", () => {
+                resolve({
+                    statusCode: response.statusCode ?? 0,
+                    statusMessage: response.statusMessage ?? "",
+                    headers: response.headers,
+                    body: Buffer.concat(chunks),
+                });
+            });
+        });
+        request.on("error", reject);
+        const timeoutSeconds = options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+        request.setTimeout(timeoutSeconds * 1000, () => {
+            // the error code makes the timeout retryable, like other network errors
+            request.destroy(new Error(`ETIMEDOUT: ${options.method} ${url} stalled, `
+                + `no data was sent or received for ${timeoutSeconds} seconds`));
+        });
+
+        if (typeof options.body === "function") {
+            const bodyStream = options.body();
+            bodyStream.on("error", (err) => request.destroy(err));
+            bodyStream.pipe(request);
+        }
+        else {
+            request.end(options.body);
+        }
+    });
+}
+
+/**
+ * Returns the value of the given response header, or undefined if it is not set.
+ * Headers which are set more than once are joined with ", ".
+ */
+export function getHeader(response: HttpResponse, name: string): string | undefined {
+    const value = response.headers[name.toLowerCase()];
+    if (Array.isArray(value)) {
+        return value.join(", ");
+    }
+    return value;
+}
+
+/**
+ * Send the request and parse the JSON response. Rejects if the response status is not 2xx.
+ */
+export async function httpRequestJson<T>(url: string, options: HttpRequestOptions): Promise<T> {
+    const response = await httpRequest(url, options);
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+        throw new Error(`${options.method} ${url} failed with status ${response.statusCode} `
+            + `${response.statusMessage}: ${response.body.toString().substring(0, 500)}`);
+    }
+    return JSON.parse(response.body.toString()) as T;
+}
+
+/**
+ * Send the parameters as an "application/x-www-form-urlencoded" POST body, and parse the JSON response.
+ */
+export async function postForm<T>(
+    url: string,
+    params: Record<string, string>,
+    headers: Record<string, string> = {},
+): Promise<T> {
+    return httpRequestJson<T>(url, {
+        method: "POST",
+        headers: {
+            ...headers,
+            "Content-Type": "application/x-www-form-urlencoded",
+            Accept: "application/json",
+        },
+        body: new URLSearchParams(params).toString(),
+    });
+}
@@ -1,44 +1,152 @@
 import * as core from "@actions/core";
-import * as exec from "@actions/exec";
-import * as io from "@actions/io";
+import * as crypto from "crypto";
 import * as fs from "fs";
-import * as os from "os";
 import * as path from "path";
 import {
-    isStorageDriverOverlay, findFuseOverlayfsPath,
     splitByNewline,
-    isFullImageName, getFullImageName,
-    getFullDockerImageName,
+    createTempDir, removeTempDirs,
 } from "./util";
 import { Inputs, Outputs } from "./generated/inputs-outputs";
-
-interface ExecResult {
-    exitCode: number;
-    stdout: string;
-    stderr: string;
-}
+import {
+    RegistryConfig, RegistryDefaults,
+    parseRegistries,
+} from "./registries";
+import { RetryOptions, getRetryOptions, withRetry } from "./retry";
+import { prepareAuthFile, removeAuthFile } from "./auth";
+import { Limiter, createLimiter, getConcurrency } from "./concurrency";
+import { LocalImage, loadLocalImage, getRootManifest } from "./local-image";
+import {
+    RemoteImage, REGISTRY_TRANSPORT,
+    isRemoteSource, loadRemoteImage, copyRemoteImage,
+} from "./remote-image";
+import {
+    Clients, getClient,
+    getRegistryClient, pushLocalImage,
+} from "./native-client";
+import { Platform, isIndexMediaType } from "./oci";
+import {
+    DestinationResult, ManifestDetails, PushStatuses,
+    getManifestDetails, formatResultsJson,
+} from "./results";
+import { writePushSummary } from "./summary";
+import { isTag, parseImageReference } from "./reference";
+import { loadSigningKey, signImage } from "./sign";
+import {
+    LocalImageIdentity, PushActions, PushPlan,
+    planPush, retagManifest,
+} from "./preflight";
+import {
+    OverwriteOptions, getOverwriteOptions,
+    isOverwriteChecked, getOverwriteViolation,
+} from "./overwrite";
+import {
+    Attachment, AttachmentKinds,
+    loadAttachments, attachArtifact,
+} from "./attach";
+import { createManifestList, filterManifestList, removeManifestList } from "./manifest-list";
+import { filterNativeImage, parsePlatforms } from "./platforms";
+import { expandTagTemplates, getTagContext, normalizeTag } from "./tag-templates";
+import { annotateNativeImage, getAnnotations } from "./annotations";
+import {
+    CompressionOptions,
+    getCompressionFormats, getCompressionOptions, isCompressionSet,
+} from "./compression";
+import {
+    ImagePolicy, PolicySubject,
+    checkPolicy, getEngineImageSubject, getNativeImageSubjects, loadPolicy,
+} from "./policy";
+import {
+    ContainerEngine, Engines, ImageStorages, PushRequest, RegistryAccess,
+    findEngine,
+} from "./engines";
+import { chooseStorage, getSourcePreference } from "./source-preference";
 
 interface ImageStorageCheckResult {
     readonly foundTags: string[];
     readonly missingTags: string[];
+    /** The ID of the image of each found tag */
+    readonly imageIds: Map<string, string>;
 }
 
-let podmanPath: string | undefined;
+interface DestinationImage {
+    readonly source: string;
+    readonly destination: string;
+    readonly registry: RegistryConfig;
+}
 
-// boolean value to check if pushed image is from Docker image storage
-let isImageFromDocker = false;
-let sourceImages: string[];
-let destinationImages: string[];
-let dockerPodmanRoot: string;
-let dockerPodmanOpts: string[];
+interface PushedImage {
+    readonly image: DestinationImage;
+    /** Undefined if the digest could not be read after the push */
+    readonly digest: string | undefined;
+    readonly status: PushStatuses;
+    /** How long the push took, including retries */
+    readonly durationSeconds: number;
+}
+
+/**
+ * A digest pushed to a repository, as one or more tags
+ */
+interface PushedRepository {
+    /** The first image which was pushed to the repository with the digest */
+    readonly image: DestinationImage;
+    readonly registry: string;
+    readonly repository: string;
+    readonly digest: string;
+}
+
+interface RegistryPushResult {
+    readonly registry: string;
+    readonly pushed: PushedImage[];
+    error?: Error;
+}
 
-async function getPodmanPath(): Promise<string> {
-    if (podmanPath == null) {
-        podmanPath = await io.which("podman", true);
-        await execute(podmanPath, [ "version" ], { group: true });
+/** An image which the native client pushes from files, or copies from another registry */
+type NativeImage = LocalImage | RemoteImage;
+
+/** How the engine copies an image out of its storage, which is the same for every destination of the image */
+type ExportRequest = Omit<PushRequest, "destination" | "digestFile">;
+
+interface PushOptions {
+    readonly isManifest: boolean;
+    /** The image to push with the native client, if it is used */
+    readonly nativeImage: NativeImage | undefined;
+    /** Extra arguments of the engine's push command */
+    readonly engineExtraArgs: string[];
+    readonly retryOptions: RetryOptions;
+    /** Show the output of each push only once it has finished, so concurrent pushes don't interleave */
+    readonly bufferOutput: boolean;
+    /** Temporary directory holding the digest file of each push */
+    readonly digestDir: string;
+    /** The temporary auth file with the credentials for every destination, if there are any */
+    readonly authFile: string | undefined;
+    /** What to do for each destination which was checked in the registry before pushing */
+    readonly pushPlans: Map<DestinationImage, PushPlan>;
+    /** Log what would be pushed, without writing to the registry */
+    readonly dryRun: boolean;
+    /** The annotations to add to the pushed manifests */
+    readonly annotations: Record<string, string>;
+    readonly compression: CompressionOptions;
+}
+
+let engine: ContainerEngine | undefined;
+
+// the image storage which each source image is pushed from, if it is not the Podman image storage
+const sourceStorages = new Map<string, ImageStorages>();
+let sourceImages: string[];
+let destinationImages: DestinationImage[];
+let registryConfigs: RegistryConfig[];
+// the manifest lists created by this run, which are removed when the action finishes
+const createdManifestLists: string[] = [];
+// the images copied out of the engine's storage to check their size and to annotate them, by source
+const exportedImages = new Map<string, Promise<LocalImage>>();
+
+async function getEngine(): Promise<ContainerEngine> {
+    if (engine == null) {
+        engine = await findEngine();
+        core.info(`Using ${engine.name} at "${engine.path}"`);
     }
 
-    return podmanPath;
+    return engine;
 }
 
 async function run(): Promise<void> {
@@ -46,59 +154,88 @@ async function run(): Promise<void> {
     const image = core.getInput(Inputs.IMAGE);
     const tags = core.getInput(Inputs.TAGS);
     // split tags
-    const tagsList = tags.trim().split(/\s+/);
+    const tagTemplates = tags.trim().split(/\s+/).filter((tag) => tag);
 
     // info message if user doesn't provides any tag
-    if (tagsList.length === 0) {
+    if (tagTemplates.length === 0) {
         core.info(`Input "${Inputs.TAGS}" is not provided, using default tag "${DEFAULT_TAG}"`);
-        tagsList.push(DEFAULT_TAG);
+        tagTemplates.push(DEFAULT_TAG);
+    }
+
+    const tagsList = expandTagTemplates(tagTemplates, await getTagContext());
+    if (tagsList.length === 0) {
+        throw new Error(`None of the tags "${tagTemplates.join(", ")}" apply to this event, `
+            + `so there is nothing to push`);
     }
 
     const normalizedTagsList: string[] = [];
-    let isNormalized = false;
     for (const tag of tagsList) {
-        normalizedTagsList.push(tag.toLowerCase());
-        if (tag.toLowerCase() !== tag) {
-            isNormalized = true;
+        const normalizedTag = normalizeTag(tag);
+        normalizedTagsList.push(normalizedTag);
+        if (normalizedTag !== tag) {
+            core.warning(`Tag "${tag}" has been changed to "${normalizedTag}" to be a valid reference`);
         }
     }
     const normalizedImage = image.toLowerCase();
-    if (isNormalized || image !== normalizedImage) {
+    if (image !== normalizedImage) {
         core.warning(`Reference to image and/or tag must be lowercase.`
         + ` Reference has been converted to be compliant with standard.`);
     }
 
     const registry = core.getInput(Inputs.REGISTRY);
-    const username = core.getInput(Inputs.USERNAME);
-    const password = core.getInput(Inputs.PASSWORD);
-    const tlsVerify = core.getInput(Inputs.TLS_VERIFY);
+    const registriesInput = core.getInput(Inputs.REGISTRIES);
+    const registryDefaults: RegistryDefaults = {
+        username: core.getInput(Inputs.USERNAME),
+        password: core.getInput(Inputs.PASSWORD),
+        tlsVerify: core.getInput(Inputs.TLS_VERIFY),
+    };
     const digestFileInput = core.getInput(Inputs.DIGESTFILE);
+    const resultsFile = core.getInput(Inputs.RESULTS_FILE);
+    const dryRun = core.getInput(Inputs.DRY_RUN) === "true";
+
+    if (registry && registriesInput) {
+        throw new Error(`Inputs "${Inputs.REGISTRY}" and "${Inputs.REGISTRIES}" cannot both be provided`);
+    }
 
     // check if all tags provided are in `image:tag` format
-    const isFullImageNameTag = isFullImageName(normalizedTagsList[0]);
-    if (normalizedTagsList.some((tag) => isFullImageName(tag) !== isFullImageNameTag)) {
+    const isFullImageNameTag = !isTag(normalizedTagsList[0]);
+    if (normalizedTagsList.some((tag) => !isTag(tag) !== isFullImageNameTag)) {
         throw new Error(`Input "${Inputs.TAGS}" cannot have a mix of full name and non full name tags`);
     }
     if (!isFullImageNameTag) {
         if (!normalizedImage) {
             throw new Error(`Input "${Inputs.IMAGE}" must be provided when using non full name tags`);
         }
-        if (!registry) {
-            throw new Error(`Input "${Inputs.REGISTRY}" must be provided when using non full name tags`);
-        }
 
-        const registryWithoutTrailingSlash = registry.replace(/\/$/, "");
-        const registryPath = `${registryWithoutTrailingSlash}/${normalizedImage}`;
-        core.info(`Combining image name "${normalizedImage}" and registry "${registry}" `
-            + `to form registry path "${registryPath}"`);
-        if (normalizedImage.indexOf("/") > -1 && registry.indexOf("/") > -1) {
-            core.warning(`"${registryPath}" does not seem to be a valid registry path. `
-            + `The registry path should not contain more than 2 slashes. `
-            + `Refer to the Inputs section of the readme for naming image and registry.`);
+        if (registriesInput) {
+            registryConfigs = parseRegistries(registriesInput, registryDefaults);
+        }
+        else if (registry) {
+            registryConfigs = [{ ...registryDefaults, registry: registry.replace(/\/$/, "") }];
+        }
+        else {
+            registryConfigs = [];
+        }
+        if (registryConfigs.length === 0) {
+            throw new Error(`Input "${Inputs.REGISTRY}" or "${Inputs.REGISTRIES}" must be provided `
+                + `when using non full name tags`);
         }
 
-        sourceImages = normalizedTagsList.map((tag) => getFullImageName(normalizedImage, tag));
-        destinationImages = normalizedTagsList.map((tag) => getFullImageName(registryPath, tag));
+        sourceImages = normalizedTagsList.map((tag) => `${normalizedImage}:${tag}`);
+        destinationImages = [];
+        for (const registryConfig of registryConfigs) {
+            const registryPath = `${registryConfig.registry}/${normalizedImage}`;
+            core.info(`Combining image name "${normalizedImage}" and registry "${registryConfig.registry}" `
+                + `to form registry path "${registryPath}"`);
+            // throws if the registry and the image do not form a valid image name
+            parseImageReference(registryPath);
+
+            destinationImages.push(...sourceImages.map((sourceImage, i) => ({
+                source: sourceImage,
+                destination: `${registryPath}:${normalizedTagsList[i]}`,
+                registry: registryConfig,
+            })));
+        }
     }
     else {
         if (normalizedImage) {
@@ -107,26 +244,279 @@ async function run(): Promise<void> {
         if (registry) {
             core.warning(`Input "${Inputs.REGISTRY}" is ignored when using full name tags`);
         }
+        if (registriesInput) {
+            throw new Error(`Input "${Inputs.REGISTRIES}" cannot be used with full name tags`);
+        }
+
+        // throws if a tag is not a valid image name
+        normalizedTagsList.forEach((tag) => parseImageReference(tag));
 
+        const registryConfig: RegistryConfig = { ...registryDefaults, registry: "" };
+        registryConfigs = [ registryConfig ];
         sourceImages = normalizedTagsList;
-        destinationImages = normalizedTagsList;
+        destinationImages = normalizedTagsList.map((tag) => ({
+            source: tag,
+            destination: tag,
+            registry: registryConfig,
+        }));
     }
 
     const inputExtraArgsStr = core.getInput(Inputs.EXTRA_ARGS);
-    let podmanExtraArgs: string[] = [];
+    let engineExtraArgs: string[] = [];
     if (inputExtraArgsStr) {
         // transform the array of lines into an array of arguments
         // by splitting over lines, then over spaces, then trimming.
         const lines = splitByNewline(inputExtraArgsStr);
-        podmanExtraArgs = lines.flatMap((line) => line.split(" ")).map((arg) => arg.trim());
+        engineExtraArgs = lines.flatMap((line) => line.split(" ")).map((arg) => arg.trim());
     }
 
+    const retryOptions = getRetryOptions();
+    const concurrency = getConcurrency();
+    const compression = getCompressionOptions();
+    const overwriteOptions = getOverwriteOptions();
+
+    // load the key before pushing, so that a bad key fails the step before anything is pushed
+    const signKeyInput = core.getInput(Inputs.SIGN_KEY);
+    const signingKey = signKeyInput
+        ? await loadSigningKey(signKeyInput, core.getInput(Inputs.SIGN_KEY_PASSWORD))
+        : undefined;
+    const attachments = [
+        ...await loadAttachments(core.getMultilineInput(Inputs.SBOMS), AttachmentKinds.SBOM),
+        ...await loadAttachments(core.getMultilineInput(Inputs.ATTESTATIONS), AttachmentKinds.ATTESTATION),
+    ];
+    const policyInput = core.getInput(Inputs.POLICY);
+    const policy = policyInput ? await loadPolicy(policyInput) : undefined;
+    let annotations = await getAnnotations();
+
+    // the manifest list commands below read images from registries, so they need the credentials too
+    const authFile = await prepareAuthFile(destinationImages);
+    const sourceAccess: RegistryAccess = { tlsVerify: registryDefaults.tlsVerify, authFile };
+
     const registryPathList: string[] = [];
-    // here
+    const source = core.getInput(Inputs.SOURCE);
+    const platformImages = core.getMultilineInput(Inputs.PLATFORM_IMAGES);
+    const client = getClient(source);
+    let isManifest: boolean;
+    let nativeImage: NativeImage | undefined;
+    if (platformImages.length > 0) {
+        if (source || client === Clients.NATIVE) {
+            throw new Error(`Input "${Inputs.PLATFORM_IMAGES}" can only be pushed with a container engine, `
+                + `so "${Inputs.SOURCE}" cannot be provided, and "${Inputs.CLIENT}" cannot be "${Clients.NATIVE}"`);
+        }
+        const manifestList = await createManifestList(await getEngine(), platformImages, sourceAccess);
+        createdManifestLists.push(manifestList.name);
+        destinationImages = destinationImages.map((destinationImage) => ({
+            ...destinationImage,
+            source: manifestList.name,
+        }));
+        isManifest = true;
+    }
+    else if (client === Clients.NATIVE) {
+        if (!source) {
+            throw new Error(`Input "${Inputs.SOURCE}" must be provided when "${Inputs.CLIENT}" is "${Clients.NATIVE}"`);
+        }
+        nativeImage = isRemoteSource(source) ? await loadRemoteImage(source) : await loadLocalImage(source);
+        isManifest = isIndexMediaType(getRootManifest(nativeImage).mediaType);
+        destinationImages = destinationImages.map((destinationImage) => ({ ...destinationImage, source }));
+    }
+    else {
+        if (source) {
+            throw new Error(`Input "${Inputs.SOURCE}" cannot be pushed with a container engine, `
+                + `set "${Inputs.CLIENT}" to "${Clients.NATIVE}" or "auto"`);
+        }
+        isManifest = await findImageInLocalStorage();
+    }
+
+    const platforms = parsePlatforms(core.getInput(Inputs.PLATFORMS));
+    if (platforms.length > 0) {
+        if (!isManifest) {
+            throw new Error(`Input "${Inputs.PLATFORMS}" can only be used when pushing manifest lists`);
+        }
+        if (nativeImage != null) {
+            nativeImage = filterNativeImage(nativeImage, platforms, source);
+        }
+        else {
+            await filterManifestLists(platforms, sourceAccess);
+        }
+    }
+
+    if (isCompressionSet(compression)) {
+        if (nativeImage != null) {
+            throw new Error(`Input "${Inputs.COMPRESSION_FORMAT}" cannot be used with the native client, `
+                + `which pushes the layers as they are compressed in the "${Inputs.SOURCE}"`);
+        }
+        // fail before pushing if the engine cannot push with the compression
+        (await getEngine()).getCompressionArgs(compression);
+    }
+
+    if (policy != null) {
+        const exportOptions = { ...sourceAccess, extraArgs: engineExtraArgs, compression };
+        checkPolicy(policy, await getPolicySubjects(policy, nativeImage, source, isManifest, exportOptions));
+    }
+
+    if (compression.addFormats.length > 0 && !isManifest) {
+        await wrapInManifestLists(sourceAccess);
+        isManifest = true;
+    }
+
+    const annotationKeys = Object.keys(annotations);
+    if (annotationKeys.length > 0) {
+        // the annotations are part of the manifests, so they are added before anything is pushed
+        if (nativeImage != null) {
+            nativeImage = annotateNativeImage(nativeImage, annotations, source);
+        }
+        else if (isManifest) {
+            await annotateManifestLists(annotations, dryRun);
+        }
+        else if ((await getEngine()).name === Engines.DOCKER) {
+            core.warning(`Engine "${Engines.DOCKER}" pushes Docker manifests, which cannot have annotations, `
+                + `so the images are pushed without them`);
+            annotations = {};
+        }
+    }
+
+    const destinationList = destinationImages.map((dest) => dest.destination).join(", ");
+    if (dryRun) {
+        core.info(`🧪 "${Inputs.DRY_RUN}" is "true", so nothing will be pushed`);
+    }
+    if (nativeImage?.transport === REGISTRY_TRANSPORT) {
+        core.info(`⏳ Copying "${source}" to "${destinationList}"`);
+    }
+    else if (nativeImage != null) {
+        core.info(`⏳ Pushing "${source}" to "${destinationList}"`);
+    }
+    else if (platformImages.length > 0) {
+        core.info(`⏳ Pushing the manifest list of "${platformImages.join(", ")}" to "${destinationList}"`);
+    }
+    else {
+        core.info(`⏳ Pushing "${sourceImages.join(", ")}" to "${destinationList}" respectively`);
+    }
+
+    let digestFile = digestFileInput;
+    if (!digestFile) {
+        digestFile = `${sourceImages[0].replace(
+            /[/\\/?%*:|"<>]/g,
+            "-",
+        )}_digest.txt`;
+    }
+
+    const skipExisting = core.getInput(Inputs.SKIP_EXISTING) === "true";
+    const isOverwriteCheckNeeded = isOverwriteChecked(overwriteOptions);
+    let pushPlans = new Map<DestinationImage, PushPlan>();
+    if (skipExisting || isOverwriteCheckNeeded) {
+        const engineOutput = { compression, annotations };
+        pushPlans = await planPushes(nativeImage, isManifest, engineOutput, retryOptions, isOverwriteCheckNeeded);
+    }
+    if (isOverwriteCheckNeeded) {
+        checkOverwrites(pushPlans, overwriteOptions);
+    }
+
+    const pushOptions: PushOptions = {
+        isManifest,
+        nativeImage,
+        engineExtraArgs,
+        retryOptions,
+        authFile,
+        bufferOutput: concurrency > 1,
+        digestDir: await createTempDir("push-to-registry-digests-"),
+        pushPlans: skipExisting ? pushPlans : new Map(),
+        dryRun,
+        annotations,
+        compression,
+    };
+    if (concurrency > 1) {
+        core.info(`Running up to ${concurrency} pushes at a time. `
+            + `The output of each push is shown once the push has finished.`);
+    }
+
+    const limit = createLimiter(concurrency);
+    // registries are independent of each other, so they can be pushed to concurrently
+    const registryResults = await Promise.all(registryConfigs.map(
+        (registryConfig) => pushToRegistry(registryConfig, pushOptions, limit, digestFile)
+    ));
+
+    const pushedImages = registryResults.flatMap((result) => result.pushed);
+    for (const destinationImage of destinationImages) {
+        if (pushedImages.some((pushed) => pushed.image === destinationImage)) {
+            registryPathList.push(destinationImage.destination);
+        }
+    }
+
+    core.setOutput(Outputs.REGISTRY_PATH, registryPathList[0]);
+    core.setOutput(Outputs.REGISTRY_PATHS, JSON.stringify(registryPathList));
+
+    // in the order of the destinations, like the registry paths
+    const getTagsOutput = (statuses: PushStatuses[]): string => JSON.stringify(destinationImages
+        .filter((dest) => pushedImages.some((pushed) => pushed.image === dest && statuses.includes(pushed.status)))
+        .map((dest) => dest.destination));
+    core.setOutput(Outputs.PUSHED_TAGS, getTagsOutput([ PushStatuses.PUSHED, PushStatuses.RETAGGED ]));
+    core.setOutput(Outputs.SKIPPED_TAGS, getTagsOutput([ PushStatuses.SKIPPED ]));
+    core.setOutput(Outputs.COMPRESSION_FORMATS, JSON.stringify(getCompressionFormats(compression)));
+
+    if (registryResults.length > 1) {
+        logRegistryResults(registryResults);
+    }
+
+    const results = await getDestinationResults(pushedImages, nativeImage, isManifest, dryRun);
+    await writeSummary(results, registryResults, dryRun);
+    const resultsJson = formatResultsJson(results);
+    core.setOutput(Outputs.RESULTS, resultsJson);
+    if (resultsFile) {
+        try {
+            await fs.promises.writeFile(resultsFile, resultsJson);
+        }
+        catch (err) {
+            core.warning(`Failed to write results file "${resultsFile}": ${err}`);
+        }
+    }
+
+    const failedRegistries = registryResults.filter((result) => result.error != null);
+    if (failedRegistries.length > 0) {
+        // a single registry fails with the error of the push, like before
+        if (registryResults.length === 1) {
+            throw failedRegistries[0].error;
+        }
+        throw new Error(`Failed to push to registr${failedRegistries.length !== 1 ? "ies" : "y"} `
+            + `"${failedRegistries.map((result) => result.registry).join(", ")}"`);
+    }
+
+    if (dryRun) {
+        if (signingKey != null) {
+            core.info(`🧪 Would sign the pushed images`);
+        }
+        if (attachments.length > 0) {
+            core.info(`🧪 Would attach "${attachments.map((attachment) => attachment.path).join(", ")}" `
+                + `to the pushed images`);
+        }
+        return;
+    }
+
+    if (signingKey != null) {
+        const signatures = await signPushedImages(pushedImages, signingKey, retryOptions);
+        core.setOutput(Outputs.SIGNATURES, JSON.stringify(signatures));
+    }
+
+    if (attachments.length > 0) {
+        const artifactDigests = await attachToPushedImages(pushedImages, attachments, retryOptions);
+        const getDigestsOutput = (kind: AttachmentKinds): string => JSON.stringify(attachments
+            .filter((attachment) => attachment.kind === kind)
+            .flatMap((attachment) => artifactDigests.get(attachment) ?? []));
+        core.setOutput(Outputs.SBOM_DIGESTS, getDigestsOutput(AttachmentKinds.SBOM));
+        core.setOutput(Outputs.ATTESTATION_DIGESTS, getDigestsOutput(AttachmentKinds.ATTESTATION));
+    }
+}
+
+/**
+ * Find the source images in the Podman and Docker image storage.
+ * Returns true if the source images are manifests.
+ */
+async function findImageInLocalStorage(): Promise<boolean> {
     // check if provided image is manifest or not
     const isManifest = await checkIfManifestsExists();
 
     if (!isManifest) {
+        const sourcePreference = getSourcePreference();
+
         // check if image with all the required tags exist in Podman image storage
         const podmanImageStorageCheckResult: ImageStorageCheckResult = await checkImageInPodman();
 
@@ -145,8 +535,7 @@ async function run(): Promise<void> {
         }
 
         // check if image with all the required tags exist in Docker image storage
-        // and if exist pull the image with all the tags to Podman
-        const dockerImageStorageCheckResult: ImageStorageCheckResult = await pullImageFromDocker();
+        const dockerImageStorageCheckResult: ImageStorageCheckResult = await checkImageInDocker();
 
         const dockerFoundTags: string[] = dockerImageStorageCheckResult.foundTags;
         const dockerMissingTags: string[] = dockerImageStorageCheckResult.missingTags;
@@ -163,266 +552,760 @@ async function run(): Promise<void> {
         }
 
         // failing if image with any of the tag is not found in Docker as well as Podman
-        if (podmanMissingTags.length > 0 && dockerMissingTags.length > 0) {
+        const missingTags = podmanMissingTags.filter((tag) => dockerMissingTags.includes(tag));
+        if (missingTags.length > 0) {
             throw new Error(
-                `❌ All tags were not found in either Podman image storage, or Docker image storage. `
-                + `Tag${podmanMissingTags.length !== 1 ? "s" : ""} "${podmanMissingTags.join(", ")}" `
-                + `not found in Podman image storage, and tag${dockerMissingTags.length !== 1 ? "s" : ""} `
-                + `"${dockerMissingTags.join(", ")}" not found in Docker image storage.`
+                `❌ Tag${missingTags.length !== 1 ? "s" : ""} "${missingTags.join(", ")}" `
+                + `not found in either Podman image storage, or Docker image storage.`
             );
         }
 
-        const allTagsinPodman: boolean = podmanFoundTags.length === normalizedTagsList.length;
-        const allTagsinDocker: boolean = dockerFoundTags.length === normalizedTagsList.length;
-
-        if (allTagsinPodman && allTagsinDocker) {
-            const isPodmanImageLatest = await isPodmanLocalImageLatest();
-            if (!isPodmanImageLatest) {
-                core.warning(
-                    `The version of "${sourceImages[0]}" in the Docker image storage is more recent `
-                        + `than the version in the Podman image storage. The image(s) from the Docker image storage `
-                        + `will be pushed.`
-                );
-                isImageFromDocker = true;
+        const containerEngine = await getEngine();
+        // without the tools to read the Docker image storage directly, the engine pulls the image out of it
+        const dockerImagesRead: string[] = [];
+        const readFromDocker = async (sourceImage: string): Promise<void> => {
+            if (dockerImagesRead.includes(sourceImage)) {
+                return;
             }
-            else {
-                core.warning(
-                    `The version of "${sourceImages[0]}" in the Podman image storage is more recent `
-                        + `than the version in the Docker image storage. The image(s) from the Podman image `
-                        + `storage will be pushed.`
-                );
+            if (!await containerEngine.imageExists(sourceImage, ImageStorages.DOCKER)) {
+                throw new Error(`Failed to read "${sourceImage}" from the Docker image storage`);
             }
-        }
-        else if (allTagsinDocker) {
-            core.info(
-                `Tag "${sourceImages[0]}" was found in the Docker image storage, but not in the Podman `
-                    + `image storage. The image(s) will be pulled into Podman image storage, pushed, and then `
-                    + `removed from the Podman image storage.`
-            );
-            isImageFromDocker = true;
-        }
-        else {
-            core.info(
-                `Tag "${sourceImages[0]}" was found in the Podman image storage, but not in the Docker `
-                    + `image storage. The image(s) will be pushed from Podman image storage.`
+            dockerImagesRead.push(sourceImage);
+        };
+
+        for (const sourceImage of sourceImages) {
+            const { storage, reason } = await chooseStorage(
+                podmanImageStorageCheckResult.imageIds.get(sourceImage),
+                dockerImageStorageCheckResult.imageIds.get(sourceImage),
+                sourcePreference,
+                async (imageStorage) => {
+                    if (imageStorage === ImageStorages.DOCKER) {
+                        await readFromDocker(sourceImage);
+                    }
+                    return (await containerEngine.inspectImage(sourceImage, imageStorage)).created;
+                },
             );
+            const storageName = storage === ImageStorages.DOCKER ? "Docker" : "Podman";
+            core.info(`"${sourceImage}" will be pushed from the ${storageName} image storage, since ${reason}`);
+
+            if (storage === ImageStorages.DOCKER) {
+                await readFromDocker(sourceImage);
+                sourceStorages.set(sourceImage, ImageStorages.DOCKER);
+            }
         }
     }
 
-    let pushMsg = `⏳ Pushing "${sourceImages.join(", ")}" to "${destinationImages.join(", ")}" respectively`;
-    if (username) {
-        pushMsg += ` as "${username}"`;
-    }
-    core.info(pushMsg);
+    return isManifest;
+}
 
-    let creds = "";
-    if (username && !password) {
-        core.warning("Username is provided, but password is missing");
+/**
+ * Replace the source of each destination with a manifest list of only that image,
+ * since the variants with the other compressions can only be added to manifest lists.
+ */
+async function wrapInManifestLists(access: RegistryAccess): Promise<void> {
+    const manifestLists = new Map<string, string>();
+    for (const sourceImage of new Set(destinationImages.map((dest) => dest.source))) {
+        // the image is added from the image storage it would have been pushed from
+        const reference = getSourceStorage(sourceImage) === ImageStorages.DOCKER
+            ? `docker-daemon:${sourceImage}`
+            : `containers-storage:${sourceImage}`;
+        const manifestList = await createManifestList(await getEngine(), [ reference ], access);
+        createdManifestLists.push(manifestList.name);
+        manifestLists.set(sourceImage, manifestList.name);
     }
-    else if (!username && password) {
-        core.warning("Password is provided, but username is missing");
+    destinationImages = destinationImages.map((destinationImage) => ({
+        ...destinationImage,
+        source: manifestLists.get(destinationImage.source) ?? destinationImage.source,
+    }));
+}
+
+/**
+ * Add the annotations to the manifest list of each destination, in the engine's storage.
+ */
+async function annotateManifestLists(annotations: Record<string, string>, dryRun: boolean): Promise<void> {
+    const annotationKeys = Object.keys(annotations).join(", ");
+    for (const sourceImage of new Set(destinationImages.map((dest) => dest.source))) {
+        if (dryRun) {
+            core.info(`🧪 Would annotate "${sourceImage}" with "${annotationKeys}"`);
+            continue;
+        }
+        await (await getEngine()).annotateManifestList(sourceImage, annotations);
+        core.info(`🏷️ Annotated "${sourceImage}" with "${annotationKeys}"`);
     }
-    else if (username && password) {
-        creds = `${username}:${password}`;
+}
+
+/**
+ * Replace the source of each destination with a manifest list with only the images for the platforms.
+ */
+async function filterManifestLists(platforms: Platform[], access: RegistryAccess): Promise<void> {
+    const filteredLists = new Map<string, string>();
+    for (const sourceImage of new Set(destinationImages.map((dest) => dest.source))) {
+        const filteredList = await filterManifestList(await getEngine(), sourceImage, platforms, access);
+        createdManifestLists.push(filteredList.name);
+        filteredLists.set(sourceImage, filteredList.name);
     }
+    destinationImages = destinationImages.map((destinationImage) => ({
+        ...destinationImage,
+        source: filteredLists.get(destinationImage.source) ?? destinationImage.source,
+    }));
+}
 
-    let digestFile = digestFileInput;
-    if (!digestFile) {
-        digestFile = `${sourceImages[0].replace(
-            /[/\\/?%*:|"<>]/g,
-            "-",
-        )}_digest.txt`;
+async function pushToRegistry(
+    registryConfig: RegistryConfig,
+    pushOptions: PushOptions,
+    limit: Limiter,
+    digestFile: string,
+): Promise<RegistryPushResult> {
+    const registryName = registryConfig.registry || "fully qualified tags";
+    const registryResult: RegistryPushResult = { registry: registryName, pushed: [] };
+
+    if (registryConfig.username) {
+        core.info(`Pushing${registryConfig.registry ? ` to "${registryConfig.registry}"` : ""} `
+            + `as "${registryConfig.username}"`);
     }
 
-    // push the image
-    for (let i = 0; i < destinationImages.length; i++) {
-        const args = [];
-        if (isImageFromDocker) {
-            args.push(...dockerPodmanOpts);
-        }
-        if (isManifest) {
-            args.push("manifest");
+    const hasFailed = (): boolean => registryResult.error != null;
+    const push = async (image: DestinationImage): Promise<void> => {
+        // once a push to this registry has failed, don't start any more
+        if (hasFailed()) {
+            return;
         }
-        args.push(...[
-            "push",
-            "--quiet",
-            "--digestfile",
-            digestFile,
-            isImageFromDocker ? getFullDockerImageName(sourceImages[i]) : sourceImages[i],
-            destinationImages[i],
-        ]);
-        // to push all the images referenced in the manifest
-        if (isManifest) {
-            args.push("--all");
+        try {
+            const pushed = await pushImage(image, pushOptions);
+            registryResult.pushed.push(pushed);
+            if (pushed.digest != null) {
+                await writeDigestFile(digestFile, pushed.digest);
+            }
         }
-        if (podmanExtraArgs.length > 0) {
-            args.push(...podmanExtraArgs);
+        catch (err) {
+            if (!hasFailed()) {
+                registryResult.error = err instanceof Error ? err : new Error(String(err));
+                core.error(`❌ Failed to push "${image.source}" to "${image.destination}"`);
+            }
         }
+    };
 
-        // check if tls-verify is not set to null
-        if (tlsVerify) {
-            args.push(`--tls-verify=${tlsVerify}`);
-        }
+    // the first push uploads the layers, after which the other tags only need their manifest pushed
+    const [ firstImage, ...otherImages ] = destinationImages.filter((dest) => dest.registry === registryConfig);
+    await limit(() => push(firstImage));
+    await Promise.all(otherImages.map((image) => limit(() => push(image))));
 
-        // check if registry creds are provided
-        if (creds) {
-            args.push(`--creds=${creds}`);
+    return registryResult;
+}
+
+async function pushImage(
+    image: DestinationImage,
+    pushOptions: PushOptions,
+): Promise<PushedImage> {
+    const startTime = Date.now();
+    const plan = pushOptions.pushPlans.get(image);
+    let digest: string | undefined;
+    let status: PushStatuses;
+    if (plan?.action === PushActions.SKIP) {
+        digest = plan.digest;
+        status = PushStatuses.SKIPPED;
+        core.info(`⏭️ Skipped pushing "${image.source}" to "${image.destination}", `
+            + `since the tag already points to the same image`);
+    }
+    else if (plan?.action === PushActions.RETAG && plan.digest != null) {
+        const existingDigest = plan.digest;
+        if (pushOptions.dryRun) {
+            digest = existingDigest;
+            core.info(`🧪 Would tag "${image.destination}" as "${existingDigest}", `
+                + `since the registry already has "${image.source}"`);
+        }
+        else {
+            const registryClient = getRegistryClient(image.destination, image.registry);
+            digest = await withRetry(pushOptions.retryOptions, () => retagManifest(
+                registryClient,
+                image.destination,
+                existingDigest,
+            ));
+            core.info(`✅ Successfully tagged "${image.destination}", `
+                + `since the registry already has "${image.source}" as "${existingDigest}"`);
         }
+        status = PushStatuses.RETAGGED;
+    }
+    else if (pushOptions.dryRun) {
+        digest = await logDryRunPush(image, pushOptions);
+        status = PushStatuses.PUSHED;
+    }
+    else {
+        digest = pushOptions.nativeImage != null
+            ? await pushImageNative(image, pushOptions.nativeImage, pushOptions)
+            : await pushImageWithEngine(image, pushOptions);
+        status = PushStatuses.PUSHED;
+        core.info(`✅ Successfully pushed "${image.source}" to "${image.destination}"`);
+    }
 
-        await execute(await getPodmanPath(), args);
-        core.info(`✅ Successfully pushed "${sourceImages[i]}" to "${destinationImages[i]}"`);
+    if (digest != null) {
+        core.info(digest);
+        // the digest should be the same for every image, but we log it every time
+        // due to https://github.com/redhat-actions/push-to-registry/issues/26
+        core.setOutput(Outputs.DIGEST, digest);
+    }
+    return {
+        image, digest, status, durationSeconds: (Date.now() - startTime) / 1000,
+    };
+}
 
-        registryPathList.push(destinationImages[i]);
+/**
+ * Check each destination in its registry, to find the tags which already exist and which point to the image.
+ * Destinations which cannot be checked are left out, unless the check is required, in which case it fails.
+ *
+ * @param engineOutput How the engine pushes the images, which makes an image in the registry a different one
+ */
+async function planPushes(
+    nativeImage: NativeImage | undefined,
+    isManifest: boolean,
+    engineOutput: Pick<LocalImageIdentity, "compression" | "annotations">,
+    retryOptions: RetryOptions,
+    isRequired: boolean,
+): Promise<Map<DestinationImage, PushPlan>> {
+    const pushPlans = new Map<DestinationImage, PushPlan>();
+    const isComparable = nativeImage != null || !isManifest;
+    if (!isComparable) {
+        core.info(`Manifests in the Podman image storage cannot be compared to the images in the registry, `
+            + `so every tag which exists in the registry is treated as a different image`);
+    }
 
+    core.info(`🔍 Checking which tags in the registry already exist`);
+    // the engine creates the manifest when pushing, so the images it pushes are identified by their config,
+    // along with the compression and the annotations it pushes them with
+    const localImageIds = new Map<string, string>();
+    // digests of each source image which were found in each repository, so that other tags can reuse them
+    const knownDigests = new Map<string, string[]>();
+    for (const image of destinationImages) {
+        let local: LocalImageIdentity = {};
+        if (nativeImage != null) {
+            local = { manifestDigest: getRootManifest(nativeImage).digest };
+        }
+        else if (isComparable) {
+            const imageId = localImageIds.get(image.source) ?? await getLocalImageId(image.source);
+            localImageIds.set(image.source, imageId);
+            local = { ...engineOutput, configDigest: imageId };
+        }
+
+        const { registry, repository } = parseImageReference(image.destination);
+        const knownDigestsKey = `${registry}/${repository}\n${image.source}`;
+        const digests = knownDigests.get(knownDigestsKey) ?? [];
+        knownDigests.set(knownDigestsKey, digests);
+
+        const registryClient = getRegistryClient(image.destination, image.registry);
         try {
-            const digest = (await fs.promises.readFile(digestFile)).toString();
-            core.info(digest);
-            // the digest should be the same for every image, but we log it every time
-            // due to https://github.com/redhat-actions/push-to-registry/issues/26
-            core.setOutput(Outputs.DIGEST, digest);
+            const plan = await withRetry(retryOptions, () => planPush(
+                registryClient,
+                image.destination,
+                local,
+                digests,
+            ));
+            if (plan.digest != null && !digests.includes(plan.digest)) {
+                digests.push(plan.digest);
+            }
+            pushPlans.set(image, plan);
         }
         catch (err) {
-            core.warning(`Failed to read digest file "${digestFile}": ${err}`);
+            if (isRequired) {
+                throw new Error(`Failed to check whether "${image.destination}" already exists in the registry: `
+                    + `${err instanceof Error ? err.message : err}`);
+            }
+            core.warning(`Failed to check "${image.destination}" in the registry, so it will be pushed: ${err}`);
         }
     }
-
-    core.setOutput(Outputs.REGISTRY_PATH, registryPathList[0]);
-    core.setOutput(Outputs.REGISTRY_PATHS, JSON.stringify(registryPathList));
+    return pushPlans;
 }
 
-async function pullImageFromDocker(): Promise<ImageStorageCheckResult> {
-    core.info(`🔍 Checking if "${sourceImages.join(", ")}" present in the local Docker image storage`);
-    const foundTags: string[] = [];
-    const missingTags: string[] = [];
-    try {
-        for (const imageWithTag of sourceImages) {
-            const commandResult: ExecResult = await execute(
-                await getPodmanPath(),
-                [ ...dockerPodmanOpts, "pull", `docker-daemon:${imageWithTag}` ],
-                { ignoreReturnCode: true, failOnStdErr: false, group: true }
-            );
-            if (commandResult.exitCode === 0) {
-                foundTags.push(imageWithTag);
-            }
-            else {
-                missingTags.push(imageWithTag);
-            }
+/**
+ * Fail before anything is pushed if any tag would be overwritten, but is not allowed to be.
+ */
+function checkOverwrites(pushPlans: Map<DestinationImage, PushPlan>, overwriteOptions: OverwriteOptions): void {
+    const violations: string[] = [];
+    for (const image of destinationImages) {
+        const plan = pushPlans.get(image);
+        if (plan == null) {
+            continue;
+        }
+        const tag = parseImageReference(image.destination).tag ?? "latest";
+        const violation = getOverwriteViolation(overwriteOptions, tag, plan);
+        if (violation != null) {
+            violations.push(`"${image.destination}", which points to "${plan.existingDigest}", since ${violation}`);
         }
     }
-    catch (err) {
-        if (err instanceof Error) {
-            core.debug(err.message);
+
+    if (violations.length > 0) {
+        throw new Error(`❌ Pushing would overwrite tag${violations.length !== 1 ? "s" : ""} `
+            + `which must not be overwritten:\n  ${violations.join("\n  ")}`);
+    }
+}
+
+function getSourceStorage(sourceImage: string): ImageStorages {
+    return sourceStorages.get(sourceImage) ?? ImageStorages.CONTAINERS;
+}
+
+async function getLocalImageId(sourceImage: string): Promise<string> {
+    const containerEngine = await getEngine();
+    return (await containerEngine.inspectImage(sourceImage, getSourceStorage(sourceImage))).id;
+}
+
+/**
+ * The images which are checked against the policy: each platform of the native image,
+ * or each image found in the local image storage.
+ * To check their size, the images in the local image storage are exported as they are pushed.
+ */
+async function getPolicySubjects(
+    policy: ImagePolicy,
+    nativeImage: NativeImage | undefined,
+    source: string,
+    isManifest: boolean,
+    exportOptions: Omit<ExportRequest, "source" | "storage" | "isManifest">,
+): Promise<PolicySubject[]> {
+    if (nativeImage != null) {
+        return getNativeImageSubjects(nativeImage, source);
+    }
+    const containerEngine = await getEngine();
+    if (isManifest) {
+        throw new Error(`Input "${Inputs.POLICY}" cannot check manifest lists in the ${containerEngine.name} `
+            + `image storage. Push them from an OCI layout or archive with "${Inputs.CLIENT}: ${Clients.NATIVE}"`);
+    }
+
+    const subjects: PolicySubject[] = [];
+    const checkedIds: string[] = [];
+    for (const sourceImage of sourceImages) {
+        const info = await containerEngine.inspectImage(sourceImage, getSourceStorage(sourceImage));
+        // tags of the same image only need to be checked once
+        if (!checkedIds.includes(info.id)) {
+            checkedIds.push(info.id);
+            // docker cannot export images, so their size is not known
+            const exportedImage = policy.maxSize != null && containerEngine.name !== Engines.DOCKER
+                ? await getExportedImage({
+                    ...exportOptions,
+                    source: sourceImage,
+                    storage: getSourceStorage(sourceImage),
+                    isManifest: false,
+                })
+                : undefined;
+            subjects.push(getEngineImageSubject(sourceImage, info, exportedImage));
         }
     }
+    return subjects;
+}
 
+/**
+ * What the engine should push to the destination.
+ */
+function getPushRequest(image: DestinationImage, pushOptions: PushOptions): PushRequest {
     return {
-        foundTags,
-        missingTags,
+        source: image.source,
+        storage: getSourceStorage(image.source),
+        destination: image.destination,
+        isManifest: pushOptions.isManifest,
+        // each push gets its own digest file, since concurrent pushes would overwrite each other's
+        digestFile: path.join(pushOptions.digestDir, `${destinationImages.indexOf(image)}_digest.txt`),
+        tlsVerify: image.registry.tlsVerify,
+        authFile: pushOptions.authFile,
+        extraArgs: pushOptions.engineExtraArgs,
+        compression: pushOptions.compression,
     };
 }
 
-async function checkImageInPodman(): Promise<ImageStorageCheckResult> {
-    // check if images exist in Podman's storage
-    core.info(`🔍 Checking if "${sourceImages.join(", ")}" present in the local Podman image storage`);
-    const foundTags: string[] = [];
-    const missingTags: string[] = [];
-    try {
-        for (const imageWithTag of sourceImages) {
-            const commandResult: ExecResult = await execute(
-                await getPodmanPath(),
-                [ "image", "exists", imageWithTag ],
-                { ignoreReturnCode: true }
-            );
-            if (commandResult.exitCode === 0) {
-                foundTags.push(imageWithTag);
+/**
+ * Hide the values of the arguments which hold credentials, such as "--creds" in the extra args.
+ */
+function redactArgs(args: string[]): string[] {
+    const secretFlags = [ "--creds", "--password", "--sign-passphrase-file" ];
+    return args.map((arg, i) => {
+        if (secretFlags.includes(args[i - 1])) {
+            return "***";
+        }
+        const flag = secretFlags.find((secretFlag) => arg.startsWith(`${secretFlag}=`));
+        return flag != null ? `${flag}=***` : arg;
+    });
+}
+
+/**
+ * Log the push which would be run, without contacting the registry.
+ * Returns the digest which would be pushed, if it is known without pushing.
+ */
+async function logDryRunPush(image: DestinationImage, pushOptions: PushOptions): Promise<string | undefined> {
+    if (pushOptions.nativeImage != null) {
+        const { blobs, manifests } = pushOptions.nativeImage;
+        const digest = getRootManifest(pushOptions.nativeImage).digest;
+        const action = pushOptions.nativeImage.transport === REGISTRY_TRANSPORT ? "copy" : "push";
+        core.info(`🧪 Would ${action} "${image.source}" to "${image.destination}" as "${digest}", `
+            + `with ${blobs.length} blob${blobs.length !== 1 ? "s" : ""} `
+            + `and ${manifests.length} manifest${manifests.length !== 1 ? "s" : ""}`);
+        return digest;
+    }
+
+    const containerEngine = await getEngine();
+    if (isAnnotatedWithEngine(pushOptions)) {
+        core.info(`🧪 Would copy "${image.source}" to an OCI layout, `
+            + `annotate it with "${Object.keys(pushOptions.annotations).join(", ")}" `
+            + `and push it to "${image.destination}"`);
+        return undefined;
+    }
+    // for images in the Docker image storage, this sets up the temporary image storage which the push reads from
+    for (const command of await containerEngine.getPushCommands(getPushRequest(image, pushOptions))) {
+        core.info(`🧪 Would run "${redactArgs(command).join(" ")}"`);
+    }
+    // the engine creates the manifest when pushing, so its digest is not known
+    return undefined;
+}
+
+/**
+ * Whether the engine's image is annotated before pushing it, which manifest lists are in the engine's storage.
+ */
+function isAnnotatedWithEngine(pushOptions: PushOptions): boolean {
+    return pushOptions.nativeImage == null && !pushOptions.isManifest
+        && Object.keys(pushOptions.annotations).length > 0;
+}
+
+/**
+ * Copy the image out of the engine's storage into an OCI layout, with its layers compressed as they are pushed.
+ * Each source is only copied once, however many tags it is pushed to.
+ */
+async function getExportedImage(request: ExportRequest): Promise<LocalImage> {
+    let exportedImage = exportedImages.get(request.source);
+    if (exportedImage == null) {
+        exportedImage = (async (): Promise<LocalImage> => {
+            const exportDir = await createTempDir("push-to-registry-export-");
+            const layoutDir = path.join(exportDir, "layout");
+            await (await getEngine()).exportImage({
+                ...request,
+                destination: `oci:${layoutDir}`,
+                // the engine writes the digest of the copy, which is not needed
+                digestFile: path.join(exportDir, "digest.txt"),
+            }, layoutDir);
+            return loadLocalImage(`oci:${layoutDir}`);
+        })();
+        exportedImages.set(request.source, exportedImage);
+    }
+    return exportedImage;
+}
+
+/**
+ * The exported image with the annotations added to its manifest, so that the native client pushes it.
+ */
+async function getAnnotatedImage(request: PushRequest, annotations: Record<string, string>): Promise<LocalImage> {
+    return annotateNativeImage(await getExportedImage(request), annotations, request.source);
+}
+
+async function pushImageWithEngine(
+    image: DestinationImage,
+    pushOptions: PushOptions,
+): Promise<string | undefined> {
+    const request = getPushRequest(image, pushOptions);
+    if (isAnnotatedWithEngine(pushOptions)) {
+        return pushImageNative(image, await getAnnotatedImage(request, pushOptions.annotations), pushOptions);
+    }
+    const containerEngine = await getEngine();
+    const { retryOptions } = pushOptions;
+    return withRetry(retryOptions, (attempt) => containerEngine.push(request, {
+        group: true,
+        groupName: `Pushing "${image.source}" to "${image.destination}" `
+            + `(attempt ${attempt} of ${retryOptions.attempts})`,
+        bufferOutput: pushOptions.bufferOutput,
+    }));
+}
+
+async function pushImageNative(
+    image: DestinationImage,
+    nativeImage: NativeImage,
+    pushOptions: PushOptions,
+): Promise<string> {
+    const registryClient = getRegistryClient(image.destination, image.registry);
+    const { retryOptions } = pushOptions;
+
+    return withRetry(retryOptions, async (attempt) => {
+        const groupName = `Pushing "${image.source}" to "${image.destination}" `
+            + `(attempt ${attempt} of ${retryOptions.attempts})`;
+        // like podman's output, the log is shown once the push has finished when pushing concurrently
+        const bufferedLog: string[] = [];
+        const log = pushOptions.bufferOutput ? (message: string): number => bufferedLog.push(message) : core.info;
+
+        if (!pushOptions.bufferOutput) {
+            core.startGroup(groupName);
+        }
+        try {
+            if (nativeImage.transport === REGISTRY_TRANSPORT) {
+                return await copyRemoteImage(registryClient, nativeImage, image.destination, log);
             }
-            else {
-                missingTags.push(imageWithTag);
+            return await pushLocalImage(registryClient, nativeImage, image.destination, log);
+        }
+        finally {
+            if (pushOptions.bufferOutput) {
+                core.startGroup(groupName);
+                bufferedLog.forEach((message) => core.info(message));
             }
+            core.endGroup();
         }
+    });
+}
+
+async function writeDigestFile(digestFile: string, digest: string): Promise<void> {
+    try {
+        await fs.promises.writeFile(digestFile, digest);
     }
     catch (err) {
-        if (err instanceof Error) {
-            core.debug(err.message);
+        core.warning(`Failed to write digest file "${digestFile}": ${err}`);
+    }
+}
+
+/**
+ * The distinct repositories and digests which were pushed, since a digest may have been pushed as several tags.
+ * Images whose digest is not known are left out with a warning, since they cannot be referred to.
+ */
+function getPushedRepositories(pushedImages: PushedImage[], action: string): PushedRepository[] {
+    const pushedRepositories: PushedRepository[] = [];
+    for (const pushed of pushedImages) {
+        const { destination } = pushed.image;
+        if (pushed.digest == null) {
+            core.warning(`Cannot ${action} "${destination}", since its digest is not known`);
+            continue;
+        }
+
+        const { registry, repository } = parseImageReference(destination);
+        const { digest } = pushed;
+        if (!pushedRepositories.some((pushedRepository) => pushedRepository.registry === registry
+            && pushedRepository.repository === repository && pushedRepository.digest === digest)) {
+            pushedRepositories.push({
+                image: pushed.image, registry, repository, digest,
+            });
         }
     }
+    return pushedRepositories;
+}
 
-    return {
-        foundTags,
-        missingTags,
-    };
+/**
+ * Sign each digest pushed to each repository once, no matter how many tags it was pushed as.
+ * Returns the references to the signatures.
+ */
+async function signPushedImages(
+    pushedImages: PushedImage[],
+    signingKey: crypto.KeyObject,
+    retryOptions: RetryOptions,
+): Promise<string[]> {
+    const signatures: string[] = [];
+    for (const pushed of getPushedRepositories(pushedImages, "sign")) {
+        const { registry, repository, digest } = pushed;
+        // cosign names Docker Hub repositories by the host of its API
+        const dockerReference = `${registry === "docker.io" ? "index.docker.io" : registry}/${repository}`;
+
+        const registryClient = getRegistryClient(pushed.image.destination, pushed.image.registry);
+        const signature = await withRetry(retryOptions, () => signImage(
+            registryClient,
+            repository,
+            dockerReference,
+            digest,
+            signingKey,
+        ));
+        core.info(`🔏 Signed "${dockerReference}@${digest}" as "${signature}"`);
+        signatures.push(signature);
+    }
+    return signatures;
 }
 
-async function isPodmanLocalImageLatest(): Promise<boolean> {
-    // checking for only one tag as creation time will be
-    // same for all the tags present
-    const imageWithTag = sourceImages[0];
+/**
+ * Attach each file to each digest pushed to each repository.
+ * Returns the digests of the artifacts for each file, which are the same in every repository.
+ */
+async function attachToPushedImages(
+    pushedImages: PushedImage[],
+    attachments: Attachment[],
+    retryOptions: RetryOptions,
+): Promise<Map<Attachment, string[]>> {
+    const artifactDigests = new Map(attachments.map((attachment) => [ attachment, new Array<string>() ]));
+    for (const pushed of getPushedRepositories(pushedImages, "attach files to")) {
+        const { registry, repository, digest } = pushed;
+        const registryClient = getRegistryClient(pushed.image.destination, pushed.image.registry);
+
+        const subject = await withRetry(retryOptions, () => registryClient.headManifest(repository, digest));
+        if (subject == null) {
+            throw new Error(`Manifest "${registry}/${repository}@${digest}" was not found after pushing it`);
+        }
 
-    // get creation time of the image present in the Podman image storage
-    const podmanLocalImageTimeStamp = await execute(await getPodmanPath(), [
-        "image",
-        "inspect",
-        imageWithTag,
-        "--format",
-        "{{.Created}}",
-    ]);
+        for (const attachment of attachments) {
+            const artifactDigest = await withRetry(retryOptions, () => attachArtifact(
+                registryClient,
+                repository,
+                subject,
+                attachment,
+            ));
+            core.info(`📎 Attached ${attachment.kind} "${attachment.path}" to "${registry}/${repository}@${digest}" `
+                + `as "${artifactDigest}"`);
+
+            const digests = artifactDigests.get(attachment) ?? [];
+            if (!digests.includes(artifactDigest)) {
+                digests.push(artifactDigest);
+            }
+        }
+    }
+    return artifactDigests;
+}
+
+/**
+ * Collect the result of each destination which was pushed, in the order of the destinations.
+ * The manifests are read from the registry, unless the image was pushed with the native client, which has them.
+ */
+async function getDestinationResults(
+    pushedImages: PushedImage[],
+    nativeImage: NativeImage | undefined,
+    isManifest: boolean,
+    dryRun: boolean,
+): Promise<DestinationResult[]> {
+    const getStorage = (source: string): string => {
+        if (nativeImage != null) {
+            return nativeImage.transport;
+        }
+        return getSourceStorage(source) === ImageStorages.DOCKER ? "docker" : "podman";
+    };
 
-    // get creation time of the image pulled from the Docker image storage
-    // appending 'docker.io/library' infront of image name as pulled image name
-    // from Docker image storage starts with the 'docker.io/library'
-    const pulledImageCreationTimeStamp = await execute(await getPodmanPath(), [
-        ...dockerPodmanOpts,
-        "image",
-        "inspect",
-        getFullDockerImageName(imageWithTag),
-        "--format",
-        "{{.Created}}",
-    ]);
+    const getDetails = async (pushed: PushedImage, digest: string): Promise<ManifestDetails | undefined> => {
+        if (nativeImage != null) {
+            return getManifestDetails(
+                getRootManifest(nativeImage),
+                async (childDigest) => nativeImage.manifests.find((manifest) => manifest.digest === childDigest),
+            );
+        }
+        // the manifest was not pushed, unless the tag already pointed to it
+        if (dryRun && pushed.status === PushStatuses.PUSHED) {
+            return undefined;
+        }
+        const registryClient = getRegistryClient(pushed.image.destination, pushed.image.registry);
+        const { repository } = parseImageReference(pushed.image.destination);
+        const manifest = await registryClient.getManifest(repository, digest);
+        return manifest && getManifestDetails(manifest, (childDigest) => registryClient.getManifest(
+            repository,
+            childDigest,
+        ));
+    };
 
-    const podmanImageTime = new Date(podmanLocalImageTimeStamp.stdout).getTime();
+    // the details are the same for every destination of a digest, so they are only read once
+    const detailsByDigest = new Map<string, Promise<ManifestDetails | undefined>>();
+    const results: DestinationResult[] = [];
+    for (const destinationImage of destinationImages) {
+        const pushed = pushedImages.find((pushedImage) => pushedImage.image === destinationImage);
+        if (pushed == null) {
+            continue;
+        }
 
-    const dockerImageTime = new Date(pulledImageCreationTimeStamp.stdout).getTime();
+        let details: ManifestDetails | undefined;
+        if (pushed.digest != null) {
+            const detailsPromise = detailsByDigest.get(pushed.digest) ?? getDetails(pushed, pushed.digest)
+                .catch((err) => {
+                    core.warning(`Failed to read the manifest of "${pushed.image.destination}": ${err}`);
+                    return undefined;
+                });
+            detailsByDigest.set(pushed.digest, detailsPromise);
+            details = await detailsPromise;
+        }
 
-    return podmanImageTime > dockerImageTime;
+        results.push({
+            source: pushed.image.source,
+            destination: pushed.image.destination,
+            status: pushed.status,
+            digest: pushed.digest,
+            storage: getStorage(pushed.image.source),
+            isManifest,
+            details,
+            durationSeconds: pushed.durationSeconds,
+        });
+    }
+    return results;
 }
 
-async function createDockerPodmanImageStroage(): Promise<void> {
-    core.info(`Creating temporary Podman image storage for pulling from Docker daemon`);
-    dockerPodmanRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), "podman-from-docker-"));
-
-    dockerPodmanOpts = [ "--root", dockerPodmanRoot ];
+/**
+ * Write the results of the pushes to the job summary.
+ * Failing to write it is only a warning, since the images have already been pushed.
+ */
+async function writeSummary(
+    results: DestinationResult[],
+    registryResults: RegistryPushResult[],
+    dryRun: boolean,
+): Promise<void> {
+    const failures = registryResults.flatMap((result) => (result.error != null
+        ? [{ registry: result.registry, message: result.error.message }]
+        : []));
+    try {
+        await writePushSummary(results, failures, dryRun);
+    }
+    catch (err) {
+        core.warning(`Failed to write the job summary: ${err}`);
+    }
+}
 
-    if (await isStorageDriverOverlay()) {
-        const fuseOverlayfsPath = await findFuseOverlayfsPath();
-        if (fuseOverlayfsPath) {
-            core.info(`Overriding storage mount_program with "fuse-overlayfs" in environment`);
-            dockerPodmanOpts.push("--storage-opt");
-            dockerPodmanOpts.push(`overlay.mount_program=${fuseOverlayfsPath}`);
+function logRegistryResults(registryResults: RegistryPushResult[]): void {
+    core.info(`Push results per registry:`);
+    for (const result of registryResults) {
+        if (result.error != null) {
+            core.info(`  ❌ ${result.registry}: failed after pushing ${result.pushed.length} tag(s): `
+                + result.error.message);
         }
         else {
-            core.warning(`"fuse-overlayfs" is not found. Install it before running this action. `
-            + `For more detail see https://github.com/redhat-actions/buildah-build/issues/45`);
+            const pushedList = result.pushed.map((pushed) => pushed.image.destination
+                + (pushed.status === PushStatuses.SKIPPED ? " (skipped)" : "")).join(", ");
+            core.info(`  ✅ ${result.registry}: pushed ${pushedList}`);
         }
     }
-    else {
-        core.info("Storage driver is not 'overlay', so not overriding storage configuration");
+}
+
+async function checkImageInDocker(): Promise<ImageStorageCheckResult> {
+    const containerEngine = await getEngine();
+    if (!containerEngine.storages.includes(ImageStorages.DOCKER)) {
+        core.info(`${containerEngine.name} cannot push from the Docker image storage, so it is not checked`);
+        return { foundTags: [], missingTags: [ ...sourceImages ], imageIds: new Map() };
     }
+
+    core.info(`🔍 Checking if "${sourceImages.join(", ")}" present in the local Docker image storage`);
+    return lookUpSourceImages(containerEngine, ImageStorages.DOCKER, "Docker");
 }
 
-async function removeDockerPodmanImageStroage(): Promise<void> {
-    if (dockerPodmanRoot) {
+async function checkImageInPodman(): Promise<ImageStorageCheckResult> {
+    const containerEngine = await getEngine();
+    if (!containerEngine.storages.includes(ImageStorages.CONTAINERS)) {
+        core.info(`${containerEngine.name} cannot push from the Podman image storage, so it is not checked`);
+        return { foundTags: [], missingTags: [ ...sourceImages ], imageIds: new Map() };
+    }
+
+    // check if images exist in Podman's storage
+    core.info(`🔍 Checking if "${sourceImages.join(", ")}" present in the local Podman image storage`);
+    return lookUpSourceImages(containerEngine, ImageStorages.CONTAINERS, "Podman");
+}
+
+/**
+ * Look up the ID of each source image in the image storage.
+ * A tag which cannot be looked up is missing, with a warning, so that each tag is either found or missing.
+ */
+async function lookUpSourceImages(
+    containerEngine: ContainerEngine,
+    storage: ImageStorages,
+    storageName: string,
+): Promise<ImageStorageCheckResult> {
+    const foundTags: string[] = [];
+    const missingTags: string[] = [];
+    const imageIds = new Map<string, string>();
+    for (const imageWithTag of sourceImages) {
+        let imageId: string | undefined;
         try {
-            core.info(`Removing temporary Podman image storage for pulling from Docker daemon`);
-            await execute(
-                await getPodmanPath(),
-                [ ...dockerPodmanOpts, "rmi", "-a", "-f" ]
-            );
-            await fs.promises.rmdir(dockerPodmanRoot, { recursive: true });
+            imageId = await containerEngine.getImageId(imageWithTag, storage);
         }
         catch (err) {
-            core.warning(`Failed to remove podman image stroage ${dockerPodmanRoot}: ${err}`);
+            core.warning(`Failed to look up "${imageWithTag}" in the ${storageName} image storage: ${err}`);
+        }
+        if (imageId != null) {
+            foundTags.push(imageWithTag);
+            imageIds.set(imageWithTag, imageId);
+        }
+        else {
+            missingTags.push(imageWithTag);
         }
     }
+
+    return {
+        foundTags,
+        missingTags,
+        imageIds,
+    };
 }
 
 async function checkIfManifestsExists(): Promise<boolean> {
@@ -430,13 +1313,9 @@ async function checkIfManifestsExists(): Promise<boolean> {
     const missingManifests = [];
     // check if manifest exist in Podman's storage
     core.info(`🔍 Checking if the given image is manifest or not.`);
+    const containerEngine = await getEngine();
     for (const manifest of sourceImages) {
-        const commandResult: ExecResult = await execute(
-            await getPodmanPath(),
-            [ "manifest", "exists", manifest ],
-            { ignoreReturnCode: true, group: true }
-        );
-        if (commandResult.exitCode === 0) {
+        if (await containerEngine.manifestExists(manifest)) {
             foundManifests.push(manifest);
         }
         else {
@@ -458,65 +1337,19 @@ async function checkIfManifestsExists(): Promise<boolean> {
     return foundManifests.length === sourceImages.length;
 }
 
-async function execute(
-    executable: string,
-    args: string[],
-    execOptions: exec.ExecOptions & { group?: boolean } = {},
-): Promise<ExecResult> {
-    let stdout = "";
-    let stderr = "";
-
-    const finalExecOptions = { ...execOptions };
-    finalExecOptions.ignoreReturnCode = true; // the return code is processed below
-
-    finalExecOptions.listeners = {
-        stdline: (line): void => {
-            stdout += `${line}\n`;
-        },
-        errline: (line): void => {
-            stderr += `${line}\n`;
-        },
-    };
-
-    if (execOptions.group) {
-        const groupName = [ executable, ...args ].join(" ");
-        core.startGroup(groupName);
-    }
-
-    try {
-        const exitCode = await exec.exec(executable, args, finalExecOptions);
-
-        if (execOptions.ignoreReturnCode !== true && exitCode !== 0) {
-            // Throwing the stderr as part of the Error makes the stderr show up in the action outline,
-            // which saves some clicking when debugging.
-            let error = `${path.basename(executable)} exited with code ${exitCode}`;
-            if (stderr) {
-                error += `\n${stderr}`;
-            }
-            throw new Error(error);
-        }
-
-        return {
-            exitCode,
-            stdout,
-            stderr,
-        };
-    }
-
-    finally {
-        if (execOptions.group) {
-            core.endGroup();
-        }
-    }
-}
-
 async function main(): Promise<void> {
     try {
-        await createDockerPodmanImageStroage();
         await run();
     }
     finally {
-        await removeDockerPodmanImageStroage();
+        if (engine != null) {
+            for (const manifestList of createdManifestLists) {
+                await removeManifestList(engine, manifestList);
+            }
+            await engine.cleanup();
+        }
+        await removeAuthFile();
+        await removeTempDirs();
     }
 }
 
@@ -0,0 +1,352 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import * as io from "@actions/io";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import * as zlib from "zlib";
+import {
+    BlobFile, Descriptor, ImageIndex, ImageManifest, ManifestData, MediaTypes,
+    isIndexMediaType, sha256Digest, sha256DigestFile,
+} from "./oci";
+import { isValidReference, normalizeReference } from "./reference";
+import { createTempDir, execute, fileExists } from "./util";
+
+export enum SourceTransports {
+    OCI = "oci",
+    OCI_ARCHIVE = "oci-archive",
+    DOCKER_ARCHIVE = "docker-archive",
+}
+
+/**
+ * An image or index stored in files, ready to be pushed by the native client.
+ */
+export interface LocalImage {
+    /** The blobs referenced by the manifests, each listed once */
+    readonly blobs: BlobFile[];
+    /**
+     * The manifests to push, with the manifests of an index before the index itself.
+     * The last manifest is the image or index being pushed.
+     */
+    readonly manifests: ManifestData[];
+    /** The transport the image was loaded from, as given or as detected */
+    readonly transport: SourceTransports;
+}
+
+/** An image as read by a loader, which does not know the transport */
+type LoadedImage = Omit<LocalImage, "transport">;
+
+const OCI_REF_NAME_ANNOTATION = "org.opencontainers.image.ref.name";
+const CONTAINERD_IMAGE_NAME_ANNOTATION = "io.containerd.image.name";
+
+interface DockerArchiveManifestEntry {
+    Config: string;
+    RepoTags: string[] | null;
+    Layers: string[];
+}
+
+export interface ImageSource {
+    /** Undefined if the source is a path without a transport, in which case the format is detected */
+    transport: SourceTransports | undefined;
+    path: string;
+    /**
+     * Selects the image if the source contains more than one.
+     * For OCI layouts, the "org.opencontainers.image.ref.name" annotation.
+     * For docker-archives, an image name from the archive's tags, or "@" followed by the image's index.
+     */
+    reference: string | undefined;
+}
+
+/**
+ * Returns the name of the image as Docker stores it, eg. "docker.io/library/image:tag",
+ * or undefined if the reference is not an image name.
+ */
+function getDockerImageName(reference: string): string | undefined {
+    return isValidReference(reference) ? normalizeReference(reference) : undefined;
+}
+
+/**
+ * Parse a source in the form "transport:path[:reference]", or a path without a transport.
+ * Like in containers-transports(5), the path ends at the first ":".
+ */
+export function parseImageSource(source: string): ImageSource {
+    const transports = Object.values(SourceTransports) as string[];
+    const transportEnd = source.indexOf(":");
+    const transport = source.substring(0, transportEnd);
+    if (transportEnd === -1 || !transports.includes(transport)) {
+        return { transport: undefined, path: source, reference: undefined };
+    }
+
+    const location = source.substring(transportEnd + 1);
+    const pathEnd = location.indexOf(":");
+    const imagePath = pathEnd > -1 ? location.substring(0, pathEnd) : location;
+    const reference = pathEnd > -1 ? location.substring(pathEnd + 1) : undefined;
+    if (!imagePath) {
+        throw new Error(`Source "${source}" has no path. Use the form "${transport}:path[:reference]"`);
+    }
+    if (reference === "") {
+        throw new Error(`Source "${source}" has an empty reference. Remove the trailing ":", or add a reference`);
+    }
+    return { transport: transport as SourceTransports, path: imagePath, reference };
+}
+
+/**
+ * Load the image from an OCI layout directory, an oci-archive tarball,
+ * or a docker-archive tarball as written by "docker save".
+ */
+export async function loadLocalImage(source: string): Promise<LocalImage> {
+    const { transport, path: sourcePath, reference } = parseImageSource(source);
+
+    let stat;
+    try {
+        stat = await fs.stat(sourcePath);
+    }
+    catch (err) {
+        throw new Error(`Source "${sourcePath}" does not exist`);
+    }
+
+    const detectedTransport = transport
+        ?? (stat.isDirectory() ? SourceTransports.OCI : SourceTransports.DOCKER_ARCHIVE);
+    if (detectedTransport === SourceTransports.OCI && !stat.isDirectory()) {
+        throw new Error(`Source "${sourcePath}" must be a directory to use transport "${SourceTransports.OCI}"`);
+    }
+    if (detectedTransport !== SourceTransports.OCI && stat.isDirectory()) {
+        throw new Error(`Source "${sourcePath}" must be a file to use transport "${detectedTransport}"`);
+    }
+
+    let image: LoadedImage;
+    switch (detectedTransport) {
+    case SourceTransports.OCI:
+        core.info(`Loading OCI layout "${sourcePath}"`);
+        image = await loadOciLayout(sourcePath, reference);
+        break;
+    case SourceTransports.OCI_ARCHIVE:
+        core.info(`Loading oci-archive "${sourcePath}"`);
+        image = await loadOciLayout(await extractArchive(sourcePath), reference);
+        break;
+    case SourceTransports.DOCKER_ARCHIVE:
+        core.info(`Loading docker-archive "${sourcePath}"`);
+        image = await loadDockerArchive(sourcePath, reference);
+        break;
+    default:
+        throw new Error(`Unknown transport "${detectedTransport}"`);
+    }
+    return { ...image, transport: detectedTransport };
+}
+
+/**
+ * Returns the manifest of the image, or of the index if the local image is a manifest list.
+ */
+export function getRootManifest(image: Pick<LocalImage, "manifests">): ManifestData {
+    return image.manifests[image.manifests.length - 1];
+}
+
+async function loadOciLayout(layoutPath: string, reference: string | undefined): Promise<LoadedImage> {
+    if (!await fileExists(path.join(layoutPath, "oci-layout"))) {
+        throw new Error(`"${layoutPath}" is not an OCI layout, it has no "oci-layout" file`);
+    }
+
+    const index = JSON.parse(await fs.readFile(path.join(layoutPath, "index.json"), "utf-8")) as ImageIndex;
+    const descriptor = selectLayoutManifest(index, layoutPath, reference);
+
+    const image: LoadedImage = { blobs: [], manifests: [] };
+    await collectLayoutManifest(layoutPath, descriptor, image);
+    return image;
+}
+
+function selectLayoutManifest(index: ImageIndex, layoutPath: string, reference: string | undefined): Descriptor {
+    if (index.manifests.length === 0) {
+        throw new Error(`OCI layout "${layoutPath}" does not contain any images`);
+    }
+
+    const refNames = index.manifests.map((manifest) => manifest.annotations?.[OCI_REF_NAME_ANNOTATION]
+        ?? manifest.digest);
+    if (reference == null) {
+        if (index.manifests.length > 1) {
+            throw new Error(`OCI layout "${layoutPath}" contains ${index.manifests.length} images `
+                + `"${refNames.join(", ")}". Select one by adding its reference to the source, `
+                + `eg. "${SourceTransports.OCI}:${layoutPath}:${refNames[0]}"`);
+        }
+        return index.manifests[0];
+    }
+
+    // "docker save" names the images in the layout with the full image name
+    const fullImageName = getDockerImageName(reference);
+    const selected = index.manifests.find((manifest) => manifest.annotations?.[OCI_REF_NAME_ANNOTATION] === reference
+        || (fullImageName != null && manifest.annotations?.[CONTAINERD_IMAGE_NAME_ANNOTATION] === fullImageName));
+    if (selected == null) {
+        throw new Error(`Reference "${reference}" not found in OCI layout "${layoutPath}". `
+            + `The layout contains "${refNames.join(", ")}"`);
+    }
+    return selected;
+}
+
+function getLayoutBlobPath(layoutPath: string, digest: string): string {
+    const [ algorithm, encoded ] = digest.split(":");
+    return path.join(layoutPath, "blobs", algorithm, encoded);
+}
+
+async function collectLayoutManifest(layoutPath: string, descriptor: Descriptor, image: LoadedImage): Promise<void> {
+    const manifestPath = getLayoutBlobPath(layoutPath, descriptor.digest);
+    if (!await fileExists(manifestPath)) {
+        throw new Error(`Manifest ${descriptor.digest} is missing from OCI layout "${layoutPath}"`);
+    }
+    const content = await fs.readFile(manifestPath);
+    const digest = sha256Digest(content);
+    if (digest !== descriptor.digest) {
+        throw new Error(`Manifest ${descriptor.digest} in OCI layout "${layoutPath}" has digest ${digest}`);
+    }
+
+    const parsed = JSON.parse(content.toString()) as ImageManifest | ImageIndex;
+    const mediaType = descriptor.mediaType || parsed.mediaType || MediaTypes.OCI_MANIFEST;
+
+    if (isIndexMediaType(mediaType)) {
+        for (const child of (parsed as ImageIndex).manifests) {
+            await collectLayoutManifest(layoutPath, child, image);
+        }
+    }
+    else {
+        const manifest = parsed as ImageManifest;
+        for (const blob of [ manifest.config, ...manifest.layers ]) {
+            // foreign layers are pulled from their URLs, not from the registry
+            if (blob.urls != null && blob.urls.length > 0) {
+                continue;
+            }
+            if (image.blobs.some((existing) => existing.digest === blob.digest)) {
+                continue;
+            }
+            const blobPath = getLayoutBlobPath(layoutPath, blob.digest);
+            if (!await fileExists(blobPath)) {
+                throw new Error(`Blob ${blob.digest} is missing from OCI layout "${layoutPath}"`);
+            }
+            image.blobs.push({
+                mediaType: blob.mediaType,
+                digest: blob.digest,
+                size: blob.size,
+                path: blobPath,
+            });
+        }
+    }
+
+    if (!image.manifests.some((existing) => existing.digest === digest)) {
+        image.manifests.push({ mediaType, digest, content });
+    }
+}
+
+async function extractArchive(archivePath: string): Promise<string> {
+    const extractDir = await createTempDir("push-to-registry-archive-");
+    await execute(await io.which("tar", true), [ "-xf", archivePath, "-C", extractDir ]);
+    return extractDir;
+}
+
+async function loadDockerArchive(archivePath: string, reference: string | undefined): Promise<LoadedImage> {
+    const extractDir = await extractArchive(archivePath);
+
+    // since Docker 25, "docker save" writes an OCI layout inside the archive
+    if (await fileExists(path.join(extractDir, "oci-layout"))) {
+        return loadOciLayout(extractDir, reference);
+    }
+
+    const manifestPath = path.join(extractDir, "manifest.json");
+    if (!await fileExists(manifestPath)) {
+        throw new Error(`"${archivePath}" is not a docker-archive, it has no "manifest.json"`);
+    }
+    const entries = JSON.parse(await fs.readFile(manifestPath, "utf-8")) as DockerArchiveManifestEntry[];
+    const entry = selectDockerArchiveEntry(entries, archivePath, reference);
+
+    const configPath = path.join(extractDir, entry.Config);
+    const config: BlobFile = {
+        mediaType: MediaTypes.DOCKER_CONFIG,
+        path: configPath,
+        ...await sha256DigestFile(configPath),
+    };
+
+    const layers: BlobFile[] = [];
+    for (const layer of entry.Layers) {
+        let layerPath = path.join(extractDir, layer);
+        // registries expect compressed layers, but "docker save" writes them uncompressed
+        if (!await isGzipped(layerPath)) {
+            const compressedPath = `${layerPath}.gz`;
+            await pipeline(createReadStream(layerPath), zlib.createGzip(), createWriteStream(compressedPath));
+            layerPath = compressedPath;
+        }
+        layers.push({
+            mediaType: MediaTypes.DOCKER_LAYER_GZIP,
+            path: layerPath,
+            ...await sha256DigestFile(layerPath),
+        });
+    }
+
+    const toDescriptor = (blob: BlobFile): Descriptor => ({
+        mediaType: blob.mediaType,
+        size: blob.size,
+        digest: blob.digest,
+    });
+    const manifest: ImageManifest = {
+        schemaVersion: 2,
+        mediaType: MediaTypes.DOCKER_MANIFEST,
+        config: toDescriptor(config),
+        layers: layers.map(toDescriptor),
+    };
+    const content = Buffer.from(JSON.stringify(manifest));
+
+    return {
+        blobs: [ config, ...layers ],
+        manifests: [{ mediaType: MediaTypes.DOCKER_MANIFEST, digest: sha256Digest(content), content }],
+    };
+}
+
+function selectDockerArchiveEntry(
+    entries: DockerArchiveManifestEntry[],
+    archivePath: string,
+    reference: string | undefined,
+): DockerArchiveManifestEntry {
+    if (entries.length === 0) {
+        throw new Error(`docker-archive "${archivePath}" does not contain any images`);
+    }
+
+    const repoTags = entries.flatMap((entry) => entry.RepoTags ?? []);
+    if (reference == null) {
+        if (entries.length > 1) {
+            throw new Error(`docker-archive "${archivePath}" contains ${entries.length} images `
+                + `"${repoTags.join(", ")}". Select one by adding its name or "@index" to the source, `
+                + `eg. "${SourceTransports.DOCKER_ARCHIVE}:${archivePath}:@0"`);
+        }
+        return entries[0];
+    }
+
+    if (reference.startsWith("@")) {
+        const entryIndex = Number(reference.substring(1));
+        if (!Number.isInteger(entryIndex) || entryIndex < 0 || entryIndex >= entries.length) {
+            throw new Error(`Image index "${reference}" is out of range, docker-archive "${archivePath}" `
+                + `contains ${entries.length} image${entries.length !== 1 ? "s" : ""}`);
+        }
+        return entries[entryIndex];
+    }
+
+    const fullImageName = getDockerImageName(reference);
+    const selected = entries.find((entry) => (entry.RepoTags ?? []).some(
+        (repoTag) => repoTag === reference || (fullImageName != null && getDockerImageName(repoTag) === fullImageName)
+    ));
+    if (selected == null) {
+        throw new Error(`Image "${reference}" not found in docker-archive "${archivePath}". `
+            + `The archive contains "${repoTags.join(", ")}"`);
+    }
+    return selected;
+}
+
+async function isGzipped(filePath: string): Promise<boolean> {
+    const file = await fs.open(filePath, "r");
+    try {
+        const header = Buffer.alloc(2);
+        const { bytesRead } = await file.read(header, 0, 2, 0);
+        return bytesRead === 2 && header[0] === 0x1f && header[1] === 0x8b;
+    }
+    finally {
+        await file.close();
+    }
+}
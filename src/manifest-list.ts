@@ -0,0 +1,169 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+    Descriptor, ImageIndex, Platform,
+    formatPlatform,
+} from "./oci";
+import { selectPlatforms } from "./platforms";
+import { createTempDir } from "./util";
+import { ContainerEngine, ImageStorages, RegistryAccess } from "./engines";
+
+const OCI_REF_NAME_ANNOTATION = "org.opencontainers.image.ref.name";
+
+// the transports of containers-transports(5) which "podman manifest add" accepts
+const IMAGE_TRANSPORTS = [
+    "containers-storage:", "docker://", "docker-daemon:", "docker-archive:", "oci:", "oci-archive:", "dir:",
+];
+
+/**
+ * An image added to a manifest list, and the platform it was added for.
+ */
+export interface PlatformImage {
+    readonly image: string;
+    readonly digest: string;
+    readonly platform: Platform;
+}
+
+/**
+ * A manifest list created in the containers storage for this run.
+ */
+export interface CreatedManifestList {
+    readonly name: string;
+    readonly images: PlatformImage[];
+}
+
+/**
+ * Returns the image with the transport through which the engine should read it.
+ * Images without a transport are read from the containers storage if they are in it, or else from their registry.
+ */
+async function getTransportReference(engine: ContainerEngine, image: string): Promise<string> {
+    if (IMAGE_TRANSPORTS.some((transport) => image.startsWith(transport))) {
+        return image;
+    }
+    const isLocal = await engine.imageExists(image, ImageStorages.CONTAINERS);
+    return isLocal ? `containers-storage:${image}` : `docker://${image}`;
+}
+
+function getTemporaryListName(): string {
+    return `localhost/push-to-registry-manifest-${crypto.randomBytes(6).toString("hex")}:latest`;
+}
+
+/**
+ * Create a manifest list in the containers storage from images of one platform each.
+ * The platform of each image is read from its config, and no two images may be for the same platform.
+ *
+ * @param access How to read the images which are not in the containers storage from their registries
+ */
+export async function createManifestList(
+    engine: ContainerEngine,
+    images: string[],
+    access: RegistryAccess,
+): Promise<CreatedManifestList> {
+    const name = getTemporaryListName();
+    core.info(`📦 Creating manifest list "${name}" from "${images.join(", ")}"`);
+    await engine.createManifestList(name);
+
+    const platformImages: PlatformImage[] = [];
+    try {
+        for (const image of images) {
+            const reference = await getTransportReference(engine, image);
+            const localPlatform = reference.startsWith("containers-storage:")
+                ? (await engine.inspectImage(image, ImageStorages.CONTAINERS)).platform
+                : undefined;
+            await engine.addToManifestList(name, reference, localPlatform, access);
+
+            // the engine adds one manifest per image, even if the source is a manifest list itself
+            const index = await engine.inspectManifestList(name);
+            const added = index.manifests[index.manifests.length - 1];
+            const platform = added.platform ?? { os: "unknown", architecture: "unknown" };
+            const duplicate = platformImages.find((platformImage) => platformImage.digest !== added.digest
+                && formatPlatform(platformImage.platform) === formatPlatform(platform));
+            if (duplicate != null) {
+                throw new Error(`"${image}" and "${duplicate.image}" are both for platform `
+                    + `"${formatPlatform(platform)}"`);
+            }
+            platformImages.push({ image, digest: added.digest, platform });
+            core.info(`Added "${image}" as "${formatPlatform(platform)}"`);
+        }
+    }
+    catch (err) {
+        // the list is only removed when the action finishes once it has been created completely
+        await removeManifestList(engine, name);
+        throw err;
+    }
+    return { name, images: platformImages };
+}
+
+/**
+ * Create a manifest list in the containers storage with only the images of the list for the requested platforms.
+ * The list is copied to an OCI layout first, so that the images can be added from there,
+ * wherever the images of the list came from.
+ * Throws if any requested platform is not in the list.
+ *
+ * @param access How to read the images of the list which are not in the containers storage from their registries
+ */
+export async function filterManifestList(
+    engine: ContainerEngine,
+    list: string,
+    platforms: Platform[],
+    access: RegistryAccess,
+): Promise<CreatedManifestList> {
+    const layoutDir = await createTempDir("push-to-registry-platforms-");
+    await engine.copyManifestList(list, `oci:${layoutDir}`, access);
+
+    // the copy may have converted the manifests, so the platforms are selected from the copy
+    const layoutIndexPath = path.join(layoutDir, "index.json");
+    const layoutIndex = JSON.parse(await fs.readFile(layoutIndexPath, "utf-8")) as ImageIndex;
+    const [ listDescriptor ] = layoutIndex.manifests;
+    const [ algorithm, hex ] = listDescriptor.digest.split(":");
+    const listPath = path.join(layoutDir, "blobs", algorithm, hex);
+    const copiedList = JSON.parse(await fs.readFile(listPath, "utf-8")) as ImageIndex;
+    const selected = selectPlatforms(copiedList, platforms, list);
+
+    // name each selected image in the layout, so that it can be referred to as "oci:<dir>:<name>"
+    const namedDescriptors: Descriptor[] = selected.map((descriptor, i) => ({
+        ...descriptor,
+        annotations: { [OCI_REF_NAME_ANNOTATION]: `platform-${i}` },
+    }));
+    layoutIndex.manifests.push(...namedDescriptors);
+    await fs.writeFile(layoutIndexPath, JSON.stringify(layoutIndex));
+
+    const name = getTemporaryListName();
+    core.info(`📦 Creating manifest list "${name}" with the platforms `
+        + `"${selected.map((descriptor) => formatPlatform(descriptor.platform)).join(", ")}" of "${list}"`);
+    await engine.createManifestList(name);
+    try {
+        for (const [ i, descriptor ] of selected.entries()) {
+            await engine.addToManifestList(name, `oci:${layoutDir}:platform-${i}`, descriptor.platform, access);
+        }
+    }
+    catch (err) {
+        await removeManifestList(engine, name);
+        throw err;
+    }
+
+    return {
+        name,
+        images: selected.map((descriptor) => ({
+            image: list,
+            digest: descriptor.digest,
+            platform: descriptor.platform ?? { os: "unknown", architecture: "unknown" },
+        })),
+    };
+}
+
+export async function removeManifestList(engine: ContainerEngine, name: string): Promise<void> {
+    try {
+        await engine.removeManifestList(name);
+    }
+    catch (err) {
+        core.warning(`Failed to remove manifest list "${name}": ${err}`);
+    }
+}
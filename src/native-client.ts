@@ -0,0 +1,84 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { Inputs } from "./generated/inputs-outputs";
+import { LocalImage, getRootManifest } from "./local-image";
+import { RegistryClient } from "./registry-client";
+import { parseImageReference } from "./reference";
+import { RegistryConfig } from "./registries";
+import { getCredentials } from "./auth";
+
+export enum Clients {
+    PODMAN = "podman",
+    NATIVE = "native",
+}
+
+const AUTO_CLIENT = "auto";
+
+/**
+ * Returns the client chosen by the "client" input.
+ * "auto" uses the native client if there is a source to push, since podman can only push from its image storage.
+ */
+export function getClient(source: string): Clients {
+    const client = core.getInput(Inputs.CLIENT) || AUTO_CLIENT;
+    if (client === AUTO_CLIENT) {
+        return source ? Clients.NATIVE : Clients.PODMAN;
+    }
+
+    const clients = [ AUTO_CLIENT, ...Object.values(Clients) as string[] ];
+    if (!clients.includes(client)) {
+        throw new Error(`Input "${Inputs.CLIENT}" must be one of "${clients.join(", ")}", but it is "${client}"`);
+    }
+    return client as Clients;
+}
+
+const registryClients = new Map<string, RegistryClient>();
+
+/**
+ * Returns the client for the registry of the given image, with the credentials from the auth file of this run.
+ * Clients are reused, so that tokens are cached and blobs can be mounted between repositories.
+ */
+export function getRegistryClient(image: string, registryConfig: RegistryConfig): RegistryClient {
+    const { registry } = parseImageReference(image);
+    const credentials = getCredentials(image);
+    const key = [ registry, credentials?.username, credentials?.password, registryConfig.tlsVerify ].join("\n");
+
+    let client = registryClients.get(key);
+    if (client == null) {
+        client = new RegistryClient(registry, credentials, registryConfig.tlsVerify !== "false");
+        registryClients.set(key, client);
+    }
+    return client;
+}
+
+/**
+ * Push the local image to the destination with the OCI Distribution API. Returns the digest of the pushed manifest.
+ */
+export async function pushLocalImage(
+    client: RegistryClient,
+    image: LocalImage,
+    destination: string,
+    log: (message: string) => void,
+): Promise<string> {
+    const { repository, tag } = parseImageReference(destination);
+
+    for (const blob of image.blobs) {
+        await client.pushBlob(repository, blob, log);
+    }
+
+    const rootManifest = getRootManifest(image);
+    // the manifests in an index have to exist before the index can be pushed
+    for (const manifest of image.manifests) {
+        if (manifest !== rootManifest) {
+            await client.putManifest(repository, manifest.digest, manifest);
+            log(`Pushed manifest ${manifest.digest}`);
+        }
+    }
+
+    const digest = await client.putManifest(repository, tag ?? "latest", rootManifest);
+    log(`Pushed ${rootManifest.mediaType} ${digest}`);
+    return digest;
+}
@@ -0,0 +1,105 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as crypto from "crypto";
+import { createReadStream } from "fs";
+
+export enum MediaTypes {
+    OCI_MANIFEST = "application/vnd.oci.image.manifest.v1+json",
+    OCI_INDEX = "application/vnd.oci.image.index.v1+json",
+    OCI_CONFIG = "application/vnd.oci.image.config.v1+json",
+    OCI_LAYER_GZIP = "application/vnd.oci.image.layer.v1.tar+gzip",
+    OCI_EMPTY = "application/vnd.oci.empty.v1+json",
+    DOCKER_MANIFEST = "application/vnd.docker.distribution.manifest.v2+json",
+    DOCKER_MANIFEST_LIST = "application/vnd.docker.distribution.manifest.list.v2+json",
+    DOCKER_CONFIG = "application/vnd.docker.container.image.v1+json",
+    DOCKER_LAYER_GZIP = "application/vnd.docker.image.rootfs.diff.tar.gzip",
+    DOCKER_FOREIGN_LAYER_GZIP = "application/vnd.docker.image.rootfs.foreign.diff.tar.gzip",
+}
+
+export const MANIFEST_MEDIA_TYPES: string[] = [
+    MediaTypes.OCI_INDEX,
+    MediaTypes.OCI_MANIFEST,
+    MediaTypes.DOCKER_MANIFEST_LIST,
+    MediaTypes.DOCKER_MANIFEST,
+];
+
+export interface Platform {
+    architecture: string;
+    os: string;
+    variant?: string;
+}
+
+export interface Descriptor {
+    mediaType: string;
+    digest: string;
+    size: number;
+    urls?: string[];
+    annotations?: Record<string, string>;
+    platform?: Platform;
+    artifactType?: string;
+}
+
+export interface ImageManifest {
+    schemaVersion: number;
+    mediaType?: string;
+    artifactType?: string;
+    config: Descriptor;
+    layers: Descriptor[];
+    subject?: Descriptor;
+    annotations?: Record<string, string>;
+}
+
+export interface ImageIndex {
+    schemaVersion: number;
+    mediaType?: string;
+    manifests: Descriptor[];
+    subject?: Descriptor;
+    annotations?: Record<string, string>;
+}
+
+/**
+ * A manifest or index, with the exact bytes that make up its digest.
+ */
+export interface ManifestData {
+    mediaType: string;
+    digest: string;
+    content: Buffer;
+}
+
+/**
+ * A blob stored in a file, such as a layer or a config.
+ */
+export interface BlobFile {
+    mediaType: string;
+    digest: string;
+    size: number;
+    path: string;
+}
+
+export function isIndexMediaType(mediaType: string): boolean {
+    return mediaType === MediaTypes.OCI_INDEX || mediaType === MediaTypes.DOCKER_MANIFEST_LIST;
+}
+
+export function sha256Digest(content: Buffer | string): string {
+    return `sha256:${crypto.createHash("sha256").update(content).digest("hex")}`;
+}
+
+export async function sha256DigestFile(filePath: string): Promise<{ digest: string, size: number }> {
+    const hash = crypto.createHash("sha256");
+    let size = 0;
+    for await (const chunk of createReadStream(filePath)) {
+        hash.update(chunk as Buffer);
+        size += (chunk as Buffer).length;
+    }
+    return { digest: `sha256:${hash.digest("hex")}`, size };
+}
+
+export function formatPlatform(platform: Platform | undefined): string {
+    if (platform == null) {
+        return "unknown";
+    }
+    return [ platform.os, platform.architecture, platform.variant ].filter((part) => part).join("/");
+}
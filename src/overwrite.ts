@@ -0,0 +1,85 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { Inputs } from "./generated/inputs-outputs";
+import { PushActions, PushPlan } from "./preflight";
+
+export enum OverwritePolicies {
+    ALWAYS = "always",
+    NEVER = "never",
+    ONLY_IF_SAME_DIGEST = "only-if-same-digest",
+}
+
+/**
+ * The rules for pushing to tags which already exist in the registry.
+ */
+export interface OverwriteOptions {
+    readonly policy: OverwritePolicies;
+    /** Globs of tags which may only be overwritten with the same image, whatever the policy */
+    readonly protectedTags: string[];
+}
+
+export function getOverwriteOptions(): OverwriteOptions {
+    const policy = core.getInput(Inputs.OVERWRITE) || OverwritePolicies.ALWAYS;
+    const policies = Object.values(OverwritePolicies) as string[];
+    if (!policies.includes(policy)) {
+        throw new Error(`Input "${Inputs.OVERWRITE}" must be one of "${policies.join(", ")}", but it is "${policy}"`);
+    }
+
+    const protectedTags = core.getInput(Inputs.PROTECTED_TAGS).split(/\s+/).filter((glob) => glob);
+    return { policy: policy as OverwritePolicies, protectedTags };
+}
+
+/**
+ * Whether any tag has to be checked in the registry before pushing.
+ */
+export function isOverwriteChecked(options: OverwriteOptions): boolean {
+    return options.policy !== OverwritePolicies.ALWAYS || options.protectedTags.length > 0;
+}
+
+/**
+ * Convert a glob, in which "*" matches any characters and "?" matches a single character, to a regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob.split("").map((char) => {
+        if (char === "*") {
+            return ".*";
+        }
+        if (char === "?") {
+            return ".";
+        }
+        return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }).join("");
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Returns why pushing to the tag is not allowed, or undefined if it is allowed.
+ *
+ * @param plan The result of checking the tag in the registry
+ */
+export function getOverwriteViolation(options: OverwriteOptions, tag: string, plan: PushPlan): string | undefined {
+    if (plan.existingDigest == null) {
+        return undefined;
+    }
+
+    if (options.policy === OverwritePolicies.NEVER) {
+        return `"${Inputs.OVERWRITE}" is "${OverwritePolicies.NEVER}"`;
+    }
+    // the tag already points to the image, so pushing it does not change it
+    if (plan.action === PushActions.SKIP) {
+        return undefined;
+    }
+    if (options.policy === OverwritePolicies.ONLY_IF_SAME_DIGEST) {
+        return `"${Inputs.OVERWRITE}" is "${OverwritePolicies.ONLY_IF_SAME_DIGEST}"`;
+    }
+
+    const protectingGlob = options.protectedTags.find((glob) => globToRegExp(glob).test(tag));
+    if (protectingGlob != null) {
+        return `it matches "${protectingGlob}" in "${Inputs.PROTECTED_TAGS}"`;
+    }
+    return undefined;
+}
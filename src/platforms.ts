@@ -0,0 +1,109 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import {
+    Descriptor, ImageIndex, ImageManifest, ManifestData, Platform,
+    formatPlatform, isIndexMediaType, sha256Digest,
+} from "./oci";
+import { LocalImage, getRootManifest } from "./local-image";
+
+// the variant of an architecture when the image does not specify one, as containerd assumes
+const DEFAULT_VARIANTS: Record<string, string> = {
+    arm64: "v8",
+    arm: "v7",
+};
+
+/**
+ * Parse platforms in the form "os/architecture[/variant]", separated by commas or whitespace.
+ */
+export function parsePlatforms(input: string): Platform[] {
+    return input.split(/[\s,]+/).filter((platform) => platform).map((platform) => {
+        const [ os, architecture, variant, ...rest ] = platform.split("/");
+        if (!os || !architecture || rest.length > 0) {
+            throw new Error(`Platform "${platform}" must be in the form "os/architecture[/variant]", `
+                + `eg. "linux/amd64" or "linux/arm64/v8"`);
+        }
+        return { os, architecture, variant: variant || undefined };
+    });
+}
+
+/**
+ * Whether the platform is the requested one. A requested platform without a variant matches any variant.
+ */
+export function matchesPlatform(requested: Platform, platform: Platform | undefined): boolean {
+    if (platform == null || platform.os !== requested.os || platform.architecture !== requested.architecture) {
+        return false;
+    }
+    if (!requested.variant) {
+        return true;
+    }
+    return (platform.variant || DEFAULT_VARIANTS[platform.architecture]) === requested.variant;
+}
+
+/**
+ * Returns the manifests of the index which are for the requested platforms, in the order of the index.
+ * Throws if any requested platform is not in the index.
+ *
+ * @param name The name of the manifest list, for the error message
+ */
+export function selectPlatforms(index: ImageIndex, requested: Platform[], name: string): Descriptor[] {
+    const missing = requested.filter((platform) => !index.manifests.some(
+        (descriptor) => matchesPlatform(platform, descriptor.platform),
+    ));
+    if (missing.length > 0) {
+        const available = index.manifests.map((descriptor) => formatPlatform(descriptor.platform));
+        throw new Error(`❌ Platform${missing.length !== 1 ? "s" : ""} `
+            + `"${missing.map((platform) => formatPlatform(platform)).join(", ")}" `
+            + `not found in manifest list "${name}", which has "${available.join(", ")}"`);
+    }
+    return index.manifests.filter((descriptor) => requested.some(
+        (platform) => matchesPlatform(platform, descriptor.platform),
+    ));
+}
+
+/**
+ * Returns the digests of the blobs and the manifests the manifest refers to.
+ */
+function getReferencedDigests(manifest: ManifestData): string[] {
+    if (isIndexMediaType(manifest.mediaType)) {
+        return (JSON.parse(manifest.content.toString()) as ImageIndex).manifests.map((descriptor) => descriptor.digest);
+    }
+    const image = JSON.parse(manifest.content.toString()) as ImageManifest;
+    return [ image.config.digest, ...image.layers.map((layer) => layer.digest) ];
+}
+
+/**
+ * An image pushed by the native client, whose manifests and blobs are known before pushing.
+ */
+type FilterableImage = Pick<LocalImage, "manifests"> & { readonly blobs: { digest: string }[] };
+
+/**
+ * Returns the manifest list with only the manifests for the requested platforms,
+ * and only the manifests and the blobs which they refer to.
+ *
+ * @param name The name of the source, for the error message
+ */
+export function filterNativeImage<T extends FilterableImage>(image: T, requested: Platform[], name: string): T {
+    const root = getRootManifest(image);
+    const index = JSON.parse(root.content.toString()) as ImageIndex;
+    const filteredIndex: ImageIndex = { ...index, manifests: selectPlatforms(index, requested, name) };
+    const content = Buffer.from(JSON.stringify(filteredIndex));
+    const filteredRoot: ManifestData = { mediaType: root.mediaType, digest: sha256Digest(content), content };
+
+    // walk down from the new index, since the manifests of the index are listed before it
+    const manifests = [ filteredRoot ];
+    const digests = new Set(getReferencedDigests(filteredRoot));
+    for (const manifest of image.manifests.slice(0, -1).reverse()) {
+        if (digests.has(manifest.digest)) {
+            manifests.unshift(manifest);
+            getReferencedDigests(manifest).forEach((digest) => digests.add(digest));
+        }
+    }
+    return {
+        ...image,
+        manifests,
+        blobs: image.blobs.filter((blob) => digests.has(blob.digest)),
+    };
+}
@@ -0,0 +1,272 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { promises as fs } from "fs";
+import * as yaml from "yaml";
+import { Inputs } from "./generated/inputs-outputs";
+import { ImageInfo } from "./engines";
+import { LocalImage, getRootManifest } from "./local-image";
+import {
+    Descriptor, ImageManifest, ManifestData, Platform,
+    formatPlatform, isIndexMediaType,
+} from "./oci";
+import { REGISTRY_TRANSPORT, RemoteImage, readRemoteBlob } from "./remote-image";
+import { fileExists } from "./util";
+
+/**
+ * The rules which the images must follow to be pushed.
+ */
+export interface ImagePolicy {
+    /** The maximum size of the layers and the config, in bytes */
+    readonly maxSize: number | undefined;
+    readonly requiredLabels: string[];
+    readonly forbidRootUser: boolean;
+    /** The digests which the "org.opencontainers.image.base.digest" of the images may be */
+    readonly allowedBaseDigests: string[];
+}
+
+/**
+ * An image which the policy is checked for, which is one platform of a manifest list.
+ */
+export interface PolicySubject {
+    readonly name: string;
+    /** The size of the layers and the config, compressed as they are pushed, or undefined if it is not known */
+    readonly size: number | undefined;
+    readonly labels: Record<string, string>;
+    readonly user: string;
+    readonly annotations: Record<string, string>;
+}
+
+interface PolicyFile {
+    "max-size"?: unknown;
+    "required-labels"?: unknown;
+    "forbid-root-user"?: unknown;
+    "allowed-base-digests"?: unknown;
+}
+
+/** The parts of an OCI image config which the policy checks */
+interface ImageConfig extends Partial<Platform> {
+    config?: {
+        User?: string;
+        Labels?: Record<string, string> | null;
+    };
+}
+
+const POLICY_KEYS: (keyof PolicyFile)[] = [ "max-size", "required-labels", "forbid-root-user", "allowed-base-digests" ];
+
+const BASE_DIGEST_ANNOTATION = "org.opencontainers.image.base.digest";
+
+const SIZE_UNITS: Partial<Record<string, number>> = {
+    "": 1,
+    b: 1,
+    kb: 1000,
+    mb: 1000 ** 2,
+    gb: 1000 ** 3,
+    kib: 1024,
+    mib: 1024 ** 2,
+    gib: 1024 ** 3,
+};
+
+/**
+ * Parse a size in bytes, such as 1048576, or with a unit, such as "500MB" or "1.5 GiB".
+ */
+function parseSize(value: unknown): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(String(value).trim());
+    const unit = match != null ? SIZE_UNITS[match[2].toLowerCase()] : undefined;
+    if (match == null || unit == null) {
+        throw new Error(`Policy "max-size" must be a number of bytes, or a number with a unit of `
+            + `"KB", "MB", "GB", "KiB", "MiB" or "GiB", but it is "${value}"`);
+    }
+    return Math.floor(Number(match[1]) * unit);
+}
+
+function formatSize(size: number): string {
+    if (size < 1000 ** 2) {
+        return `${size} bytes`;
+    }
+    return `${(size / 1000 ** 2).toFixed(1)} MB`;
+}
+
+function parseStringList(policy: PolicyFile, key: keyof PolicyFile): string[] {
+    const value = policy[key] ?? [];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        throw new Error(`Policy "${key}" must be a list of strings`);
+    }
+    return value as string[];
+}
+
+function isYamlMapping(value: string): boolean {
+    try {
+        const parsed: unknown = yaml.parse(value);
+        return typeof parsed === "object" && parsed != null && !Array.isArray(parsed);
+    }
+    catch (err) {
+        return false;
+    }
+}
+
+/**
+ * Load the policy, given either as YAML or as the path to a YAML file.
+ * An input of one line is the path to a file if the file exists, or else YAML if it is a mapping,
+ * such as "{ max-size: 500MB }".
+ */
+export async function loadPolicy(policyInput: string): Promise<ImagePolicy> {
+    let policyYaml = policyInput;
+    const policyPath = policyInput.trim();
+    if (!policyPath.includes("\n") && (await fileExists(policyPath) || !isYamlMapping(policyInput))) {
+        try {
+            policyYaml = await fs.readFile(policyPath, "utf-8");
+        }
+        catch (err) {
+            throw new Error(`Failed to read policy file "${policyInput}": ${err}`);
+        }
+    }
+
+    let policy: PolicyFile;
+    try {
+        policy = (yaml.parse(policyYaml) ?? {}) as PolicyFile;
+    }
+    catch (err) {
+        throw new Error(`Failed to parse input "${Inputs.POLICY}" as YAML: `
+            + `${err instanceof Error ? err.message : err}`);
+    }
+    if (typeof policy !== "object" || Array.isArray(policy)) {
+        throw new Error(`Input "${Inputs.POLICY}" must be a YAML mapping of the rules "${POLICY_KEYS.join(", ")}"`);
+    }
+    const unknownKeys = Object.keys(policy).filter((key) => !(POLICY_KEYS as string[]).includes(key));
+    if (unknownKeys.length > 0) {
+        throw new Error(`Unknown policy rule${unknownKeys.length !== 1 ? "s" : ""} "${unknownKeys.join(", ")}". `
+            + `The rules are "${POLICY_KEYS.join(", ")}"`);
+    }
+    if (policy["forbid-root-user"] != null && typeof policy["forbid-root-user"] !== "boolean") {
+        throw new Error(`Policy "forbid-root-user" must be true or false`);
+    }
+
+    return {
+        maxSize: policy["max-size"] != null ? parseSize(policy["max-size"]) : undefined,
+        requiredLabels: parseStringList(policy, "required-labels"),
+        forbidRootUser: policy["forbid-root-user"] === true,
+        allowedBaseDigests: parseStringList(policy, "allowed-base-digests"),
+    };
+}
+
+function getManifestSize(manifestData: ManifestData): number {
+    const manifest = JSON.parse(manifestData.content.toString()) as ImageManifest;
+    return [ manifest.config, ...manifest.layers ].reduce((total, descriptor) => total + descriptor.size, 0);
+}
+
+/**
+ * The image as the container engine inspected it in its storage. Its size is read from the copy
+ * which the engine exported to an OCI layout, whose layers are compressed as they are pushed,
+ * and is not known if the engine could not export it.
+ */
+export function getEngineImageSubject(
+    name: string,
+    info: ImageInfo,
+    exportedImage: LocalImage | undefined,
+): PolicySubject {
+    return {
+        name,
+        size: exportedImage != null ? getManifestSize(getRootManifest(exportedImage)) : undefined,
+        labels: info.labels,
+        user: info.user,
+        annotations: info.annotations,
+    };
+}
+
+async function readConfig(image: LocalImage | RemoteImage, config: Descriptor): Promise<ImageConfig> {
+    let content: Buffer;
+    if (image.transport === REGISTRY_TRANSPORT) {
+        content = await readRemoteBlob(image, config);
+    }
+    else {
+        const blob = image.blobs.find((file) => file.digest === config.digest);
+        if (blob == null) {
+            throw new Error(`Config ${config.digest} is not in the image`);
+        }
+        content = await fs.readFile(blob.path);
+    }
+    return JSON.parse(content.toString()) as ImageConfig;
+}
+
+/**
+ * Each image of the native image, which is each platform if it is a manifest list.
+ */
+export async function getNativeImageSubjects(image: LocalImage | RemoteImage, name: string): Promise<PolicySubject[]> {
+    const manifests = image.manifests.filter((manifest) => !isIndexMediaType(manifest.mediaType));
+    const subjects: PolicySubject[] = [];
+    for (const manifestData of manifests) {
+        const manifest = JSON.parse(manifestData.content.toString()) as ImageManifest;
+        const config = await readConfig(image, manifest.config);
+        const platform = config.os != null && config.architecture != null
+            ? formatPlatform({ os: config.os, architecture: config.architecture, variant: config.variant })
+            : undefined;
+        subjects.push({
+            name: manifests.length > 1 && platform != null ? `${name} (${platform})` : name,
+            size: getManifestSize(manifestData),
+            labels: config.config?.Labels ?? {},
+            user: config.config?.User ?? "",
+            annotations: manifest.annotations ?? {},
+        });
+    }
+    return subjects;
+}
+
+function isRootUser(user: string): boolean {
+    // the user may be followed by a group, eg. "root:wheel"
+    const [ name ] = user.split(":");
+    return name === "" || name === "root" || name === "0";
+}
+
+/**
+ * Returns the rules of the policy which the image does not follow.
+ */
+function findViolations(policy: ImagePolicy, subject: PolicySubject): string[] {
+    const violations: string[] = [];
+    if (policy.maxSize != null) {
+        if (subject.size == null) {
+            violations.push(`its size is not known, so it cannot be checked against "max-size"`);
+        }
+        else if (subject.size > policy.maxSize) {
+            violations.push(`its size of ${formatSize(subject.size)} is more than "max-size" `
+                + `of ${formatSize(policy.maxSize)}`);
+        }
+    }
+    for (const label of policy.requiredLabels) {
+        if (!subject.labels[label]) {
+            violations.push(`it does not have the required label "${label}"`);
+        }
+    }
+    if (policy.forbidRootUser && isRootUser(subject.user)) {
+        violations.push(subject.user ? `it runs as root, as user "${subject.user}"`
+            : "it runs as root, since it does not set a user");
+    }
+    if (policy.allowedBaseDigests.length > 0) {
+        const baseDigest = subject.annotations[BASE_DIGEST_ANNOTATION] ?? subject.labels[BASE_DIGEST_ANNOTATION];
+        if (!baseDigest) {
+            violations.push(`its base image is not known, since it has no "${BASE_DIGEST_ANNOTATION}" `
+                + `annotation or label`);
+        }
+        else if (!policy.allowedBaseDigests.includes(baseDigest)) {
+            violations.push(`its base image "${baseDigest}" is not in "allowed-base-digests"`);
+        }
+    }
+    return violations;
+}
+
+/**
+ * Check the images against the policy. Throws with every violation, if there are any.
+ */
+export function checkPolicy(policy: ImagePolicy, subjects: PolicySubject[]): void {
+    const violations = subjects.flatMap((subject) => findViolations(policy, subject)
+        .map((violation) => `"${subject.name}": ${violation}`));
+    if (violations.length > 0) {
+        throw new Error(`❌ ${violations.length} policy violation${violations.length !== 1 ? "s" : ""}, `
+            + `so nothing was pushed:\n  ${violations.join("\n  ")}`);
+    }
+    core.info(`✅ ${subjects.map((subject) => `"${subject.name}"`).join(", ")} `
+        + `follow${subjects.length === 1 ? "s" : ""} the policy`);
+}
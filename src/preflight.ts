@@ -0,0 +1,133 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { CompressionFormats, CompressionOptions } from "./compression";
+import { Descriptor, ImageManifest, isIndexMediaType } from "./oci";
+import { RegistryClient } from "./registry-client";
+import { parseImageReference } from "./reference";
+
+// the layer annotation which podman and buildah add to zstd:chunked layers
+const ZSTD_CHUNKED_ANNOTATION = "io.github.containers.zstd-chunked.manifest-checksum";
+
+export enum PushActions {
+    /** The tag has to be pushed */
+    PUSH = "push",
+    /** The manifest is already in the repository, so it only has to be tagged */
+    RETAG = "retag",
+    /** The tag already points to the manifest */
+    SKIP = "skip",
+}
+
+export interface PushPlan {
+    readonly action: PushActions;
+    /** The digest of the manifest that is already in the repository, unless the action is PUSH */
+    readonly digest?: string;
+    /** The digest the tag points to in the registry, if the tag exists */
+    readonly existingDigest?: string;
+}
+
+/**
+ * What identifies the image to push, to find it in the registry.
+ * If neither digest is known, the image is never found, and every existing tag is treated as a different image.
+ */
+export interface LocalImageIdentity {
+    /** The digest of the manifest, when it is pushed as is */
+    readonly manifestDigest?: string;
+    /** The digest of the image config, when the manifest is created by the push, as podman does */
+    readonly configDigest?: string;
+    /**
+     * With the config digest, how the push compresses the layers.
+     * The same config with layers compressed otherwise is a different image.
+     */
+    readonly compression?: CompressionOptions;
+    /** With the config digest, the annotations which the push adds to the manifest */
+    readonly annotations?: Record<string, string>;
+}
+
+function isCompressedWith(layer: Descriptor, format: CompressionFormats): boolean {
+    const isZstd = layer.mediaType.endsWith("+zstd");
+    const isChunked = layer.annotations?.[ZSTD_CHUNKED_ANNOTATION] != null;
+    switch (format) {
+    case CompressionFormats.GZIP:
+        // eg. "application/vnd.oci.image.layer.v1.tar+gzip" or "application/vnd.docker.image.rootfs.diff.tar.gzip"
+        return /[+.]gzip$/.test(layer.mediaType);
+    case CompressionFormats.ZSTD:
+        return isZstd && !isChunked;
+    case CompressionFormats.ZSTD_CHUNKED:
+        return isZstd && isChunked;
+    default:
+        return false;
+    }
+}
+
+/**
+ * Whether the manifest in the registry is the image which the engine would push.
+ * The engine creates the manifest when pushing, so its config, the compression of its layers,
+ * and its annotations are compared.
+ */
+function isSameEngineImage(manifest: ImageManifest, local: LocalImageIdentity): boolean {
+    if (manifest.config.digest !== local.configDigest) {
+        return false;
+    }
+    const { format, level } = local.compression ?? {};
+    // the level is not recorded in the manifest, so layers compressed at a level may be compressed at another
+    if (level != null) {
+        return false;
+    }
+    if (format != null && !manifest.layers.every((layer) => isCompressedWith(layer, format))) {
+        return false;
+    }
+    return Object.entries(local.annotations ?? {}).every(([ key, value ]) => manifest.annotations?.[key] === value);
+}
+
+/**
+ * Check what the destination tag points to, to find out whether the local image has to be pushed to it.
+ *
+ * @param knownDigests Digests of manifests of the local image which are already in the repository under other tags
+ */
+export async function planPush(
+    client: RegistryClient,
+    destination: string,
+    local: LocalImageIdentity,
+    knownDigests: string[],
+): Promise<PushPlan> {
+    const { repository, tag } = parseImageReference(destination);
+
+    const remote = await client.getManifest(repository, tag ?? "latest");
+    const existingDigest = remote?.digest;
+    if (remote != null) {
+        let isSame: boolean;
+        if (local.manifestDigest != null) {
+            isSame = remote.digest === local.manifestDigest;
+        }
+        else {
+            isSame = local.configDigest != null && !isIndexMediaType(remote.mediaType)
+                && isSameEngineImage(JSON.parse(remote.content.toString()) as ImageManifest, local);
+        }
+        if (isSame) {
+            return { action: PushActions.SKIP, digest: remote.digest, existingDigest };
+        }
+    }
+
+    const candidateDigests = local.manifestDigest != null ? [ local.manifestDigest ] : knownDigests;
+    for (const digest of candidateDigests) {
+        if (await client.headManifest(repository, digest) != null) {
+            return { action: PushActions.RETAG, digest, existingDigest };
+        }
+    }
+    return { action: PushActions.PUSH, existingDigest };
+}
+
+/**
+ * Point the destination tag to the manifest with the given digest, which is already in the repository.
+ */
+export async function retagManifest(client: RegistryClient, destination: string, digest: string): Promise<string> {
+    const { repository, tag } = parseImageReference(destination);
+    const manifest = await client.getManifest(repository, digest);
+    if (manifest == null) {
+        throw new Error(`Manifest "${digest}" is no longer in "${client.registry}/${repository}"`);
+    }
+    return client.putManifest(repository, tag ?? "latest", manifest);
+}
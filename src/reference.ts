@@ -0,0 +1,169 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+/*
+ * Image references, following the grammar of the distribution project:
+ * https://github.com/distribution/reference/blob/main/reference.go
+ *
+ *  reference := name [ ":" tag ] [ "@" digest ]
+ *  name      := [ domain "/" ] path-component [ "/" path-component ]*
+ *  domain    := host [ ":" port-number ]
+ */
+
+export interface ImageReference {
+    /** The registry hostname, with the port if there is one */
+    registry: string;
+    /** The repository in the registry, with the "library/" namespace of the official images on Docker Hub */
+    repository: string;
+    tag?: string;
+    digest?: string;
+}
+
+/** The parts of a reference, which are not validated */
+interface ReferenceParts {
+    name: string;
+    tag: string | undefined;
+    digest: string | undefined;
+}
+
+export const DOCKER_IO = "docker.io";
+const LEGACY_DOCKER_IO = "index.docker.io";
+const DOCKER_IO_LIBRARY = "library";
+
+const MAX_NAME_LENGTH = 255;
+
+const DOMAIN_COMPONENT = "(?:[a-zA-Z0-9]|[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9])";
+const DOMAIN = new RegExp(`^(?:${DOMAIN_COMPONENT}(?:\\.${DOMAIN_COMPONENT})*|\\[[a-fA-F0-9:]+\\])(?::[0-9]+)?$`);
+const PATH_COMPONENT = /^[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*$/;
+const TAG = /^\w[\w.-]{0,127}$/;
+const DIGEST = /^[A-Za-z][A-Za-z0-9]*(?:[-_+.][A-Za-z][A-Za-z0-9]*)*:[0-9a-fA-F]{32,}$/;
+// the digest algorithms which registries support, with the length of their hex encoded hashes
+const DIGEST_LENGTHS: Partial<Record<string, number>> = { sha256: 64, sha384: 96, sha512: 128 };
+
+/**
+ * Split a reference into its name, tag and digest, without validating them.
+ * The tag follows the last ":", unless that ":" is before the last "/", where it separates the port of the registry.
+ */
+export function splitReference(reference: string): ReferenceParts {
+    let name = reference;
+    let tag: string | undefined;
+    let digest: string | undefined;
+
+    const digestIndex = name.indexOf("@");
+    if (digestIndex > -1) {
+        digest = name.substring(digestIndex + 1);
+        name = name.substring(0, digestIndex);
+    }
+    const tagIndex = name.lastIndexOf(":");
+    if (tagIndex > name.lastIndexOf("/")) {
+        tag = name.substring(tagIndex + 1);
+        name = name.substring(0, tagIndex);
+    }
+    return { name, tag, digest };
+}
+
+/**
+ * Split the name into the registry and the repository.
+ * Like Docker, the first component is the registry only if it looks like a hostname,
+ * ie. if it has a "." or a port, is "localhost", or has uppercase letters, which repositories cannot have.
+ */
+function splitRegistry(name: string): { registry: string, repository: string } {
+    const slashIndex = name.indexOf("/");
+    const firstComponent = name.substring(0, slashIndex);
+    if (slashIndex === -1 || !(firstComponent.includes(".") || firstComponent.includes(":")
+        || firstComponent === "localhost" || firstComponent.toLowerCase() !== firstComponent)) {
+        return { registry: DOCKER_IO, repository: name };
+    }
+    return {
+        registry: firstComponent === LEGACY_DOCKER_IO ? DOCKER_IO : firstComponent,
+        repository: name.substring(slashIndex + 1),
+    };
+}
+
+/**
+ * Returns why the reference is invalid, or undefined if it is valid.
+ */
+function validate(parts: ReferenceParts, registry: string, repository: string): string | undefined {
+    if (!parts.name) {
+        return "the image name is empty";
+    }
+    if (parts.name.length > MAX_NAME_LENGTH) {
+        return `the image name is longer than ${MAX_NAME_LENGTH} characters`;
+    }
+    if (!DOMAIN.test(registry)) {
+        return `the registry "${registry}" is not a hostname or an IP address in brackets, with an optional port`;
+    }
+    for (const component of repository.split("/")) {
+        if (!component) {
+            return `the repository "${repository}" has an empty path component`;
+        }
+        if (component.toLowerCase() !== component) {
+            return `the repository "${repository}" must be lowercase`;
+        }
+        if (!PATH_COMPONENT.test(component)) {
+            return `the path component "${component}" of the repository may only have lowercase letters and digits, `
+                + `separated by ".", "_", "__" or dashes`;
+        }
+    }
+    if (parts.tag != null && !TAG.test(parts.tag)) {
+        return `the tag "${parts.tag}" must have at most 128 letters, digits, "_", "." and "-", `
+            + `and may not start with "." or "-"`;
+    }
+    if (parts.digest != null) {
+        const [ algorithm, hex ] = parts.digest.split(":", 2) as [ string, string | undefined ];
+        const length = DIGEST_LENGTHS[algorithm];
+        if (!DIGEST.test(parts.digest) || (length != null && hex?.length !== length)) {
+            return `the digest "${parts.digest}" must be in the form "algorithm:hex", eg. "sha256:" followed by `
+                + `64 hexadecimal characters`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse an image reference, such as "quay.io/namespace/image:tag" or "image@sha256:...", into its parts.
+ * Names without a registry are on Docker Hub, like "docker.io/library/image".
+ * Throws if the reference is not valid.
+ */
+export function parseImageReference(reference: string): ImageReference {
+    const parts = splitReference(reference);
+    const { registry, repository: path } = splitRegistry(parts.name);
+    const error = validate(parts, registry, path);
+    if (error != null) {
+        throw new Error(`Invalid image reference "${reference}": ${error}`);
+    }
+
+    const repository = registry === DOCKER_IO && !path.includes("/") ? `${DOCKER_IO_LIBRARY}/${path}` : path;
+    return {
+        registry, repository, tag: parts.tag, digest: parts.digest,
+    };
+}
+
+export function isValidReference(reference: string): boolean {
+    try {
+        parseImageReference(reference);
+        return true;
+    }
+    catch (err) {
+        return false;
+    }
+}
+
+/**
+ * Returns true if the value is a tag, rather than a reference with an image name.
+ */
+export function isTag(value: string): boolean {
+    return TAG.test(value);
+}
+
+/**
+ * Returns the fully qualified form of the reference, eg. "docker.io/library/image:tag" for "image:tag".
+ */
+export function normalizeReference(reference: string): string {
+    const {
+        registry, repository, tag, digest,
+    } = parseImageReference(reference);
+    return `${registry}/${repository}${tag != null ? `:${tag}` : ""}${digest != null ? `@${digest}` : ""}`;
+}
@@ -0,0 +1,94 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { Inputs } from "./generated/inputs-outputs";
+import { splitByNewline } from "./util";
+
+export interface RegistryConfig {
+    /**
+     * Hostname and optional namespace, without a trailing slash.
+     * Empty when the tags are fully qualified image names.
+     */
+    registry: string;
+    username: string;
+    password: string;
+    tlsVerify: string;
+}
+
+export type RegistryDefaults = Omit<RegistryConfig, "registry">;
+
+/**
+ * Parse the "registries" input. Each non-empty line is a registry followed by optional
+ * key=value options, eg. "quay.io/my-namespace username=me password=secret tls-verify=false".
+ * Lines starting with '#' are ignored.
+ */
+export function parseRegistries(registriesInput: string, defaults: RegistryDefaults): RegistryConfig[] {
+    const registries: RegistryConfig[] = [];
+
+    for (const line of splitByNewline(registriesInput)) {
+        const trimmedLine = line.trim();
+        if (!trimmedLine || trimmedLine.startsWith("#")) {
+            continue;
+        }
+
+        const [ registry, ...options ] = trimmedLine.split(/\s+/);
+        const config: RegistryConfig = {
+            ...defaults,
+            registry: registry.replace(/\/$/, ""),
+        };
+
+        for (const option of options) {
+            const separatorIndex = option.indexOf("=");
+            // don't print the option itself, it may be a password
+            if (separatorIndex <= 0) {
+                throw new Error(`Invalid option for registry "${registry}" in input "${Inputs.REGISTRIES}". `
+                    + `Options must be in the form key=value`);
+            }
+            const key = option.substring(0, separatorIndex);
+            const value = option.substring(separatorIndex + 1);
+
+            switch (key) {
+            case "username":
+                config.username = value;
+                break;
+            case "password":
+                config.password = value;
+                break;
+            case "tls-verify":
+                config.tlsVerify = value;
+                break;
+            default:
+                throw new Error(`Unknown option "${key}" for registry "${registry}" in input "${Inputs.REGISTRIES}". `
+                    + `Valid options are "username", "password" and "tls-verify"`);
+            }
+        }
+
+        if (registries.some((existing) => existing.registry === config.registry)) {
+            throw new Error(`Registry "${config.registry}" is listed more than once in input "${Inputs.REGISTRIES}"`);
+        }
+        registries.push(config);
+    }
+
+    return registries;
+}
+
+/**
+ * Returns the credentials to pass to podman as "--creds", or an empty string if there are none.
+ * Warns if only one of username and password is set.
+ */
+export function getRegistryCreds(config: RegistryConfig): string {
+    const registryDescription = config.registry ? ` for registry "${config.registry}"` : "";
+    if (config.username && !config.password) {
+        core.warning(`Username is provided${registryDescription}, but password is missing`);
+    }
+    else if (!config.username && config.password) {
+        core.warning(`Password is provided${registryDescription}, but username is missing`);
+    }
+    else if (config.username && config.password) {
+        return `${config.username}:${config.password}`;
+    }
+    return "";
+}
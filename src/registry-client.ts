@@ -0,0 +1,512 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { createReadStream } from "fs";
+import {
+    HttpRequestOptions, HttpResponse,
+    httpRequest, getHeader,
+} from "./http";
+import {
+    BlobFile, Descriptor, ManifestData,
+    MANIFEST_MEDIA_TYPES, sha256Digest, sha256DigestFile,
+} from "./oci";
+import { DOCKER_IO } from "./reference";
+
+export interface RegistryCredentials {
+    username: string;
+    password: string;
+}
+
+const DOCKER_IO_API_HOST = "registry-1.docker.io";
+
+// blobs larger than this are uploaded in chunks of this size
+const UPLOAD_CHUNK_SIZE = 32 * 1024 * 1024;
+
+interface RegistryRequestOptions extends HttpRequestOptions {
+    /** The token scopes needed for the request, eg. "repository:namespace/image:pull,push" */
+    scopes: string[];
+    /** Status codes that are not errors */
+    expectedStatus: number[];
+}
+
+interface AuthChallenge {
+    scheme: string;
+    params: Record<string, string>;
+}
+
+/**
+ * A client for the OCI Distribution API, for a single registry.
+ */
+export class RegistryClient {
+    private baseUrl: string | undefined;
+    private challenge: AuthChallenge | undefined;
+    private readonly authHeaders = new Map<string, string>();
+    /** The repository each blob was uploaded to, so that it can be mounted into other repositories */
+    private readonly uploadedBlobs = new Map<string, string>();
+
+    public readonly registry: string;
+    private readonly credentials: RegistryCredentials | undefined;
+    private readonly tlsVerify: boolean;
+
+    constructor(registry: string, credentials: RegistryCredentials | undefined, tlsVerify: boolean = true) {
+        this.registry = registry;
+        this.credentials = credentials;
+        this.tlsVerify = tlsVerify;
+    }
+
+    public async blobExists(repository: string, digest: string): Promise<boolean> {
+        const response = await this.request(`/v2/${repository}/blobs/${digest}`, {
+            method: "HEAD",
+            scopes: [ pushScope(repository) ],
+            expectedStatus: [ 200, 404 ],
+        });
+        return response.statusCode === 200;
+    }
+
+    /**
+     * Upload the blob, unless the repository already has it.
+     * If the blob was uploaded to another repository on this registry before, it is mounted from there instead.
+     */
+    public async pushBlob(repository: string, blob: BlobFile, log: (message: string) => void): Promise<void> {
+        if (await this.blobExists(repository, blob.digest)) {
+            log(`Blob ${blob.digest} already exists`);
+            return;
+        }
+
+        let uploadUrl: string | undefined;
+        const mountFrom = this.uploadedBlobs.get(blob.digest);
+        if (mountFrom != null && mountFrom !== repository) {
+            const response = await this.request(
+                `/v2/${repository}/blobs/uploads/?mount=${encodeURIComponent(blob.digest)}`
+                    + `&from=${encodeURIComponent(mountFrom)}`,
+                {
+                    method: "POST",
+                    scopes: [ pushScope(repository), `repository:${mountFrom}:pull` ],
+                    expectedStatus: [ 201, 202 ],
+                },
+            );
+            if (response.statusCode === 201) {
+                log(`Mounted blob ${blob.digest} from ${mountFrom}`);
+                return;
+            }
+            // the registry started a regular upload instead of mounting
+            uploadUrl = this.getLocation(response);
+        }
+
+        if (uploadUrl == null) {
+            const response = await this.request(`/v2/${repository}/blobs/uploads/`, {
+                method: "POST",
+                scopes: [ pushScope(repository) ],
+                expectedStatus: [ 202 ],
+            });
+            uploadUrl = this.getLocation(response);
+        }
+
+        if (blob.size > UPLOAD_CHUNK_SIZE) {
+            for (let start = 0; start < blob.size; start += UPLOAD_CHUNK_SIZE) {
+                const end = Math.min(start + UPLOAD_CHUNK_SIZE, blob.size) - 1;
+                const response = await this.request(uploadUrl, {
+                    method: "PATCH",
+                    headers: {
+                        "Content-Type": "application/octet-stream",
+                        "Content-Length": String(end - start + 1),
+                        "Content-Range": `${start}-${end}`,
+                    },
+                    body: () => createReadStream(blob.path, { start, end }),
+                    scopes: [ pushScope(repository) ],
+                    expectedStatus: [ 202 ],
+                });
+                uploadUrl = this.getLocation(response);
+            }
+            await this.request(appendQuery(uploadUrl, `digest=${encodeURIComponent(blob.digest)}`), {
+                method: "PUT",
+                headers: { "Content-Length": "0" },
+                scopes: [ pushScope(repository) ],
+                expectedStatus: [ 201 ],
+            });
+        }
+        else {
+            await this.request(appendQuery(uploadUrl, `digest=${encodeURIComponent(blob.digest)}`), {
+                method: "PUT",
+                headers: {
+                    "Content-Type": "application/octet-stream",
+                    "Content-Length": String(blob.size),
+                },
+                body: () => createReadStream(blob.path),
+                scopes: [ pushScope(repository) ],
+                expectedStatus: [ 201 ],
+            });
+        }
+
+        this.uploadedBlobs.set(blob.digest, repository);
+        log(`Uploaded blob ${blob.digest} (${blob.size} bytes)`);
+    }
+
+    /**
+     * Mount the blob into the repository from another repository of this registry, without uploading it.
+     * Returns false if the registry did not mount it, eg. because it does not support mounting.
+     */
+    public async mountBlob(repository: string, digest: string, from: string): Promise<boolean> {
+        const response = await this.request(
+            `/v2/${repository}/blobs/uploads/?mount=${encodeURIComponent(digest)}&from=${encodeURIComponent(from)}`,
+            {
+                method: "POST",
+                scopes: [ pushScope(repository), pullScope(from) ],
+                expectedStatus: [ 201, 202 ],
+            },
+        );
+        if (response.statusCode !== 201) {
+            // the registry started a regular upload instead, which it discards once it expires
+            return false;
+        }
+        this.uploadedBlobs.set(digest, repository);
+        return true;
+    }
+
+    /**
+     * Download the blob to the file, and check that its content has the blob's digest.
+     * The storage which registries may redirect to is sent the request without the credentials.
+     */
+    public async downloadBlob(repository: string, digest: string, filePath: string): Promise<void> {
+        const url = `/v2/${repository}/blobs/${digest}`;
+        const response = await this.request(url, {
+            method: "GET",
+            scopes: [ pullScope(repository) ],
+            expectedStatus: [ 200, 302, 303, 307 ],
+            outputFile: filePath,
+        });
+        if (response.statusCode !== 200) {
+            const location = getHeader(response, "Location");
+            if (!location) {
+                throw new Error(`Registry "${this.registry}" redirected GET ${url} without a location`);
+            }
+            const redirected = await httpRequest(new URL(location, this.baseUrl).toString(), {
+                method: "GET",
+                tlsVerify: this.tlsVerify,
+                outputFile: filePath,
+            });
+            if (redirected.statusCode !== 200) {
+                throw new Error(`Failed to download blob ${digest} from "${this.registry}/${repository}": `
+                    + `status ${redirected.statusCode} ${redirected.statusMessage}`);
+            }
+        }
+
+        if (digest.startsWith("sha256:")) {
+            const downloaded = await sha256DigestFile(filePath);
+            if (downloaded.digest !== digest) {
+                throw new Error(`Blob ${digest} downloaded from "${this.registry}/${repository}" `
+                    + `has digest ${downloaded.digest}`);
+            }
+        }
+    }
+
+    /**
+     * Upload a small blob held in memory, unless the repository already has it. Returns the blob's descriptor.
+     */
+    public async pushBlobContent(repository: string, mediaType: string, content: Buffer): Promise<Descriptor> {
+        const descriptor = { mediaType, digest: sha256Digest(content), size: content.length };
+        if (await this.blobExists(repository, descriptor.digest)) {
+            return descriptor;
+        }
+
+        const response = await this.request(`/v2/${repository}/blobs/uploads/`, {
+            method: "POST",
+            scopes: [ pushScope(repository) ],
+            expectedStatus: [ 202 ],
+        });
+        await this.request(appendQuery(this.getLocation(response), `digest=${encodeURIComponent(descriptor.digest)}`), {
+            method: "PUT",
+            headers: {
+                "Content-Type": "application/octet-stream",
+                "Content-Length": String(content.length),
+            },
+            body: content,
+            scopes: [ pushScope(repository) ],
+            expectedStatus: [ 201 ],
+        });
+        return descriptor;
+    }
+
+    /**
+     * Push the manifest by tag or by digest. Returns the digest of the manifest.
+     */
+    public async putManifest(repository: string, reference: string, manifest: ManifestData): Promise<string> {
+        const response = await this.sendManifest(repository, reference, manifest);
+        return getHeader(response, "Docker-Content-Digest") ?? manifest.digest;
+    }
+
+    /**
+     * Push a manifest which has a subject, by its digest.
+     * Returns false if the registry does not support the referrers API,
+     * in which case the referrers tag of the subject has to be updated instead.
+     */
+    public async putReferrer(repository: string, manifest: ManifestData): Promise<boolean> {
+        const response = await this.sendManifest(repository, manifest.digest, manifest);
+        return getHeader(response, "OCI-Subject") != null;
+    }
+
+    /**
+     * Fetch the manifest by tag or by digest. Returns undefined if it does not exist.
+     */
+    public async getManifest(repository: string, reference: string): Promise<ManifestData | undefined> {
+        const response = await this.request(`/v2/${repository}/manifests/${reference}`, {
+            method: "GET",
+            headers: { Accept: MANIFEST_MEDIA_TYPES.join(", ") },
+            scopes: [ pullScope(repository) ],
+            expectedStatus: [ 200, 404 ],
+        });
+        if (response.statusCode === 404) {
+            return undefined;
+        }
+
+        const content = response.body;
+        const mediaType = getHeader(response, "Content-Type")?.split(";")[0].trim()
+            ?? (JSON.parse(content.toString()) as { mediaType?: string }).mediaType ?? "";
+        return {
+            mediaType,
+            digest: getHeader(response, "Docker-Content-Digest") ?? sha256Digest(content),
+            content,
+        };
+    }
+
+    /**
+     * Look up the descriptor of the manifest by tag or by digest. Returns undefined if it does not exist.
+     */
+    public async headManifest(repository: string, reference: string): Promise<Descriptor | undefined> {
+        const response = await this.request(`/v2/${repository}/manifests/${reference}`, {
+            method: "HEAD",
+            headers: { Accept: MANIFEST_MEDIA_TYPES.join(", ") },
+            scopes: [ pullScope(repository) ],
+            expectedStatus: [ 200, 404 ],
+        });
+        if (response.statusCode === 404) {
+            return undefined;
+        }
+
+        const digest = getHeader(response, "Docker-Content-Digest");
+        if (digest == null) {
+            // some registries only return the digest on GET
+            const manifest = await this.getManifest(repository, reference);
+            return manifest && {
+                mediaType: manifest.mediaType,
+                digest: manifest.digest,
+                size: manifest.content.length,
+            };
+        }
+        return {
+            mediaType: getHeader(response, "Content-Type")?.split(";")[0].trim() ?? "",
+            digest,
+            size: Number(getHeader(response, "Content-Length") ?? 0),
+        };
+    }
+
+    private async sendManifest(repository: string, reference: string, manifest: ManifestData): Promise<HttpResponse> {
+        return this.request(`/v2/${repository}/manifests/${reference}`, {
+            method: "PUT",
+            headers: { "Content-Type": manifest.mediaType },
+            body: manifest.content,
+            scopes: [ pushScope(repository) ],
+            expectedStatus: [ 201 ],
+        });
+    }
+
+    private async request(pathOrUrl: string, options: RegistryRequestOptions): Promise<HttpResponse> {
+        const baseUrl = await this.getBaseUrl();
+        const url = pathOrUrl.startsWith("/") ? baseUrl + pathOrUrl : pathOrUrl;
+
+        let authHeader = await this.getAuthHeader(options.scopes);
+        let response = await this.send(url, options, authHeader);
+
+        if (response.statusCode === 401) {
+            // the token may not cover this request, so authenticate again with the scope the registry asked for
+            const challenge = parseAuthChallenge(getHeader(response, "WWW-Authenticate"));
+            if (challenge != null) {
+                this.challenge = challenge;
+                const scopes = challenge.params.scope ? [ ...options.scopes, challenge.params.scope ] : options.scopes;
+                authHeader = await this.authenticate(scopes);
+                response = await this.send(url, options, authHeader);
+            }
+        }
+
+        if (!options.expectedStatus.includes(response.statusCode)) {
+            throw new Error(
+                `${options.method} ${url} failed with status ${response.statusCode} ${response.statusMessage}`
+                    + formatRegistryErrors(response)
+            );
+        }
+        return response;
+    }
+
+    private async send(url: string, options: RegistryRequestOptions, authHeader: string): Promise<HttpResponse> {
+        const headers = { ...options.headers };
+        if (authHeader) {
+            headers.Authorization = authHeader;
+        }
+        core.debug(`${options.method} ${url}`);
+        return httpRequest(url, { ...options, headers, tlsVerify: this.tlsVerify });
+    }
+
+    private getLocation(response: HttpResponse): string {
+        const location = getHeader(response, "Location");
+        if (!location) {
+            throw new Error(`Registry "${this.registry}" did not return an upload location`);
+        }
+        // the location may be relative to the registry
+        return new URL(location, this.baseUrl).toString();
+    }
+
+    /**
+     * Find out whether the registry is served over HTTPS or HTTP, and how it asks clients to authenticate.
+     * HTTP is only tried if TLS verification is disabled.
+     */
+    private async getBaseUrl(): Promise<string> {
+        if (this.baseUrl != null) {
+            return this.baseUrl;
+        }
+
+        const host = this.registry === DOCKER_IO ? DOCKER_IO_API_HOST : this.registry;
+        let baseUrl = `https://${host}`;
+        let response: HttpResponse;
+        try {
+            response = await httpRequest(`${baseUrl}/v2/`, { method: "GET", tlsVerify: this.tlsVerify });
+        }
+        catch (err) {
+            if (this.tlsVerify) {
+                throw err;
+            }
+            core.debug(`Failed to connect to ${baseUrl}, trying HTTP: ${err}`);
+            baseUrl = `http://${host}`;
+            response = await httpRequest(`${baseUrl}/v2/`, { method: "GET" });
+        }
+
+        if (response.statusCode === 401) {
+            this.challenge = parseAuthChallenge(getHeader(response, "WWW-Authenticate"));
+        }
+        this.baseUrl = baseUrl;
+        return baseUrl;
+    }
+
+    private async getAuthHeader(scopes: string[]): Promise<string> {
+        if (this.challenge == null) {
+            return "";
+        }
+        return this.authHeaders.get(scopes.join(" ")) ?? this.authenticate(scopes);
+    }
+
+    private async authenticate(scopes: string[]): Promise<string> {
+        if (this.challenge == null) {
+            return "";
+        }
+
+        let authHeader = "";
+        if (this.challenge.scheme === "basic") {
+            if (this.credentials != null) {
+                authHeader = `Basic ${encodeBasicAuth(this.credentials)}`;
+            }
+        }
+        else if (this.challenge.scheme === "bearer") {
+            authHeader = `Bearer ${await this.fetchToken(this.challenge.params, scopes)}`;
+        }
+        else {
+            throw new Error(`Registry "${this.registry}" requested unsupported authentication `
+                + `scheme "${this.challenge.scheme}"`);
+        }
+
+        this.authHeaders.set(scopes.join(" "), authHeader);
+        return authHeader;
+    }
+
+    private async fetchToken(params: Record<string, string>, scopes: string[]): Promise<string> {
+        if (!params.realm) {
+            throw new Error(`Registry "${this.registry}" did not provide a token realm`);
+        }
+
+        const tokenUrl = new URL(params.realm);
+        if (params.service) {
+            tokenUrl.searchParams.set("service", params.service);
+        }
+        for (const scope of new Set(scopes)) {
+            tokenUrl.searchParams.append("scope", scope);
+        }
+
+        const headers: Record<string, string> = {};
+        if (this.credentials != null) {
+            headers.Authorization = `Basic ${encodeBasicAuth(this.credentials)}`;
+        }
+
+        core.debug(`Requesting token from ${tokenUrl.toString()}`);
+        const response = await httpRequest(tokenUrl.toString(), { method: "GET", headers, tlsVerify: this.tlsVerify });
+        if (response.statusCode !== 200) {
+            throw new Error(
+                `Failed to get a token for registry "${this.registry}": `
+                    + `status ${response.statusCode} ${response.statusMessage}` + formatRegistryErrors(response)
+            );
+        }
+
+        const tokenResponse = JSON.parse(response.body.toString()) as { token?: string, access_token?: string };
+        const token = tokenResponse.token ?? tokenResponse.access_token;
+        if (!token) {
+            throw new Error(`Token response for registry "${this.registry}" did not contain a token`);
+        }
+        return token;
+    }
+}
+
+function pushScope(repository: string): string {
+    return `repository:${repository}:pull,push`;
+}
+
+function pullScope(repository: string): string {
+    return `repository:${repository}:pull`;
+}
+
+function appendQuery(url: string, query: string): string {
+    return url + (url.includes("?") ? "&" : "?") + query;
+}
+
+function encodeBasicAuth(credentials: RegistryCredentials): string {
+    return Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64");
+}
+
+/**
+ * Parse a WWW-Authenticate header, eg. 'Bearer realm="https://auth.example.com/token",service="example.com"'
+ */
+function parseAuthChallenge(header: string | undefined): AuthChallenge | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const schemeEnd = header.indexOf(" ");
+    const scheme = (schemeEnd > -1 ? header.substring(0, schemeEnd) : header).toLowerCase();
+    const params: Record<string, string> = {};
+    const paramRegex = /(\w+)="([^"]*)"/g;
+    let match = paramRegex.exec(header);
+    while (match != null) {
+        params[match[1]] = match[2];
+        match = paramRegex.exec(header);
+    }
+    return { scheme, params };
+}
+
+/**
+ * Format the errors in a registry error response body, eg. ": MANIFEST_INVALID: manifest invalid"
+ */
+function formatRegistryErrors(response: HttpResponse): string {
+    try {
+        const errorResponse = JSON.parse(response.body.toString()) as {
+            errors?: { code: string, message?: string }[],
+        };
+        if (errorResponse.errors != null && errorResponse.errors.length > 0) {
+            return ": " + errorResponse.errors
+                .map((error) => (error.message ? `${error.code}: ${error.message}` : error.code))
+                .join(", ");
+        }
+    }
+    catch (err) {
+        // the body is not JSON
+    }
+    return "";
+}
@@ -0,0 +1,204 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { Inputs } from "./generated/inputs-outputs";
+import {
+    BlobFile, Descriptor, ImageIndex, ImageManifest, ManifestData,
+    isIndexMediaType, sha256Digest,
+} from "./oci";
+import { RegistryClient } from "./registry-client";
+import { parseImageReference } from "./reference";
+import { findPullCredentials } from "./auth";
+import { createTempDir } from "./util";
+
+export const REMOTE_SOURCE_PREFIX = "docker://";
+
+/** The storage of a remote source in the results */
+export const REGISTRY_TRANSPORT = "registry";
+
+/**
+ * An image or index in a registry, which is copied to the destinations registry-side.
+ */
+export interface RemoteImage {
+    readonly client: RegistryClient;
+    readonly repository: string;
+    /** The blobs referenced by the manifests, each listed once */
+    readonly blobs: Descriptor[];
+    /**
+     * The manifests to copy, with the manifests of an index before the index itself.
+     * The last manifest is the image or index being copied.
+     */
+    readonly manifests: ManifestData[];
+    readonly transport: typeof REGISTRY_TRANSPORT;
+}
+
+/** The blobs downloaded from the source, which are uploaded to each registry the source cannot be mounted in */
+const downloadedBlobs = new Map<string, Promise<BlobFile>>();
+let downloadDir: string | undefined;
+
+export function isRemoteSource(source: string): boolean {
+    return source.startsWith(REMOTE_SOURCE_PREFIX);
+}
+
+/**
+ * Returns the client for the registry of the source, with the source credentials from the inputs,
+ * or else with those found like the credentials of the destinations.
+ */
+async function getSourceClient(reference: string): Promise<RegistryClient> {
+    const { registry } = parseImageReference(reference);
+    const username = core.getInput(Inputs.SOURCE_USERNAME);
+    const password = core.getInput(Inputs.SOURCE_PASSWORD);
+    if (!!username !== !!password) {
+        throw new Error(`Inputs "${Inputs.SOURCE_USERNAME}" and "${Inputs.SOURCE_PASSWORD}" must be provided together`);
+    }
+
+    const credentials = username ? { username, password } : await findPullCredentials(reference);
+    if (credentials != null) {
+        core.info(`Pulling "${reference}" as "${credentials.username}"`);
+    }
+    return new RegistryClient(registry, credentials, core.getInput(Inputs.SOURCE_TLS_VERIFY) !== "false");
+}
+
+/**
+ * Read the manifests of a source in the form "docker://registry/repository[:tag|@digest]" from its registry.
+ * The blobs are only read when they are copied to a registry which cannot mount them.
+ */
+export async function loadRemoteImage(source: string): Promise<RemoteImage> {
+    const reference = source.substring(REMOTE_SOURCE_PREFIX.length);
+    const {
+        registry, repository, tag, digest,
+    } = parseImageReference(reference);
+    const client = await getSourceClient(reference);
+
+    core.info(`Reading "${reference}" from "${registry}"`);
+    const root = await client.getManifest(repository, digest ?? tag ?? "latest");
+    if (root == null) {
+        throw new Error(`Source "${source}" was not found in the registry`);
+    }
+    // the digest is of the exact bytes, which are copied as they are, so that the destinations have the same digest
+    const rootDigest = sha256Digest(root.content);
+    if (digest != null && digest !== rootDigest) {
+        throw new Error(`Source "${source}" has digest "${rootDigest}"`);
+    }
+
+    const manifests: ManifestData[] = [];
+    if (isIndexMediaType(root.mediaType)) {
+        const index = JSON.parse(root.content.toString()) as ImageIndex;
+        for (const descriptor of index.manifests) {
+            if (manifests.some((known) => known.digest === descriptor.digest)) {
+                continue;
+            }
+            const manifest = await client.getManifest(repository, descriptor.digest);
+            if (manifest == null) {
+                throw new Error(`Manifest "${descriptor.digest}" of "${reference}" was not found in the registry`);
+            }
+            manifests.push(manifest);
+        }
+    }
+    manifests.push({ ...root, digest: rootDigest });
+
+    const blobs: Descriptor[] = [];
+    for (const manifest of manifests.filter((data) => !isIndexMediaType(data.mediaType))) {
+        const image = JSON.parse(manifest.content.toString()) as ImageManifest;
+        for (const blob of [ image.config, ...image.layers ]) {
+            // non-distributable layers are pulled from their URLs, so the registry does not have them
+            if (blob.urls != null && blob.urls.length > 0) {
+                core.info(`Skipping non-distributable layer ${blob.digest}`);
+                continue;
+            }
+            if (!blobs.some((known) => known.digest === blob.digest)) {
+                blobs.push(blob);
+            }
+        }
+    }
+
+    core.info(`Read ${manifests.length} manifest${manifests.length !== 1 ? "s" : ""} `
+        + `referring to ${blobs.length} blob${blobs.length !== 1 ? "s" : ""} from "${reference}"`);
+    return {
+        client, repository, blobs, manifests, transport: REGISTRY_TRANSPORT,
+    };
+}
+
+/**
+ * Download the blob from the source, once for all the destinations.
+ */
+async function downloadBlob(image: RemoteImage, blob: Descriptor): Promise<BlobFile> {
+    let downloaded = downloadedBlobs.get(blob.digest);
+    if (downloaded == null) {
+        downloaded = (async (): Promise<BlobFile> => {
+            downloadDir ??= await createTempDir("push-to-registry-copy-");
+            const filePath = path.join(downloadDir, blob.digest.replace(":", "-"));
+            await image.client.downloadBlob(image.repository, blob.digest, filePath);
+            return {
+                mediaType: blob.mediaType, digest: blob.digest, size: blob.size, path: filePath,
+            };
+        })();
+        downloadedBlobs.set(blob.digest, downloaded);
+        // a failed download is tried again by the next attempt
+        downloaded.catch(() => downloadedBlobs.delete(blob.digest));
+    }
+    return downloaded;
+}
+
+/**
+ * Read a blob of the remote image, such as its config. The download is reused if the blob is copied.
+ */
+export async function readRemoteBlob(image: RemoteImage, blob: Descriptor): Promise<Buffer> {
+    return fs.readFile((await downloadBlob(image, blob)).path);
+}
+
+/**
+ * Copy the remote image to the destination with the OCI Distribution API. Returns the digest of the copied manifest.
+ * Blobs are mounted from the source repository if the destination is on the same registry,
+ * and otherwise downloaded from the source and uploaded.
+ */
+export async function copyRemoteImage(
+    client: RegistryClient,
+    image: RemoteImage,
+    destination: string,
+    log: (message: string) => void,
+): Promise<string> {
+    const { repository, tag } = parseImageReference(destination);
+    const isSameRegistry = client.registry === image.client.registry;
+
+    for (const blob of image.blobs) {
+        if (await client.blobExists(repository, blob.digest)) {
+            log(`Blob ${blob.digest} already exists`);
+            continue;
+        }
+        if (isSameRegistry && repository !== image.repository) {
+            try {
+                if (await client.mountBlob(repository, blob.digest, image.repository)) {
+                    log(`Mounted blob ${blob.digest} from ${image.repository}`);
+                    continue;
+                }
+            }
+            catch (err) {
+                core.debug(`Failed to mount blob ${blob.digest} from ${image.repository}: ${err}`);
+            }
+        }
+        await client.pushBlob(repository, await downloadBlob(image, blob), log);
+    }
+
+    const rootManifest = image.manifests[image.manifests.length - 1];
+    // the manifests in an index have to exist before the index can be pushed
+    for (const manifest of image.manifests) {
+        if (manifest !== rootManifest) {
+            await client.putManifest(repository, manifest.digest, manifest);
+            log(`Copied manifest ${manifest.digest}`);
+        }
+    }
+
+    const digest = await client.putManifest(repository, tag ?? "latest", rootManifest);
+    if (digest !== rootManifest.digest) {
+        throw new Error(`Registry "${client.registry}" stored "${destination}" as "${digest}", `
+            + `instead of the source's digest "${rootManifest.digest}"`);
+    }
+    log(`Copied ${rootManifest.mediaType} ${digest}`);
+    return digest;
+}
@@ -0,0 +1,105 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import {
+    ImageIndex, ImageManifest, ManifestData,
+    formatPlatform, isIndexMediaType,
+} from "./oci";
+
+export enum PushStatuses {
+    PUSHED = "pushed",
+    RETAGGED = "retagged",
+    SKIPPED = "skipped",
+}
+
+export interface PlatformDetails {
+    readonly platform: string;
+    readonly digest: string;
+    readonly size: number;
+}
+
+/**
+ * What was pushed for a manifest or manifest list, as read from the manifest.
+ */
+export interface ManifestDetails {
+    readonly mediaType: string;
+    /** The compressed size of the manifests, configs and layers */
+    readonly size: number;
+    /** The images of a manifest list */
+    readonly platforms: PlatformDetails[];
+}
+
+/**
+ * The result of pushing to one destination.
+ */
+export interface DestinationResult {
+    readonly source: string;
+    readonly destination: string;
+    readonly status: PushStatuses;
+    readonly digest: string | undefined;
+    /** Where the source image was read from: "podman", "docker", or the transport of the source */
+    readonly storage: string;
+    readonly isManifest: boolean;
+    /** Undefined if the manifest could not be read */
+    readonly details: ManifestDetails | undefined;
+    /** How long the push took, including retries */
+    readonly durationSeconds: number;
+}
+
+function getImageSize(manifest: ManifestData): number {
+    const image = JSON.parse(manifest.content.toString()) as ImageManifest;
+    return image.layers.reduce((size, layer) => size + layer.size, manifest.content.length + image.config.size);
+}
+
+/**
+ * Read the sizes and the platforms of the manifest, fetching the manifests of a manifest list.
+ */
+export async function getManifestDetails(
+    manifest: ManifestData,
+    fetchManifest: (digest: string) => Promise<ManifestData | undefined>,
+): Promise<ManifestDetails> {
+    if (!isIndexMediaType(manifest.mediaType)) {
+        return { mediaType: manifest.mediaType, size: getImageSize(manifest), platforms: [] };
+    }
+
+    const index = JSON.parse(manifest.content.toString()) as ImageIndex;
+    const platforms: PlatformDetails[] = [];
+    for (const descriptor of index.manifests) {
+        const child = await fetchManifest(descriptor.digest);
+        platforms.push({
+            platform: formatPlatform(descriptor.platform),
+            digest: descriptor.digest,
+            // nested indexes are not expected, so they only count their own size
+            size: child != null && !isIndexMediaType(child.mediaType) ? getImageSize(child) : descriptor.size,
+        });
+    }
+    return {
+        mediaType: manifest.mediaType,
+        size: platforms.reduce((size, platform) => size + platform.size, manifest.content.length),
+        platforms,
+    };
+}
+
+/**
+ * Format the results as a JSON object, keyed by destination, for the "results" output and file.
+ */
+export function formatResultsJson(results: DestinationResult[]): string {
+    const json: Record<string, unknown> = {};
+    for (const result of results) {
+        json[result.destination] = {
+            source: result.source,
+            status: result.status,
+            digest: result.digest ?? null,
+            mediaType: result.details?.mediaType ?? null,
+            storage: result.storage,
+            size: result.details?.size ?? null,
+            // only manifest lists have platforms
+            platforms: result.details != null && isIndexMediaType(result.details.mediaType)
+                ? result.details.platforms
+                : undefined,
+        };
+    }
+    return JSON.stringify(json, undefined, 2);
+}
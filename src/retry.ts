@@ -0,0 +1,120 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { Inputs } from "./generated/inputs-outputs";
+import { getNumberInput } from "./util";
+
+export interface RetryOptions {
+    /** Total number of attempts, including the first one */
+    readonly attempts: number;
+    readonly initialDelaySeconds: number;
+    readonly backoffFactor: number;
+    /** Fraction of the delay, between 0 and 1, by which each delay is randomly varied */
+    readonly jitter: number;
+}
+
+// Checked before the retryable patterns, since eg. an auth failure may also mention a status code
+const FATAL_ERROR_PATTERNS: RegExp[] = [
+    /unauthorized/i,
+    /authentication required/i,
+    /denied/i,
+    /\b40[13]\b/,
+    /manifest[ _]invalid/i,
+    /name[ _]unknown/i,
+    /invalid reference format/i,
+    /image not known/i,
+];
+
+const RETRYABLE_ERROR_PATTERNS: RegExp[] = [
+    // 5xx server errors and 429 rate limiting, only as HTTP statuses, since other numbers such as sizes may be 5xx too
+    /\b(?:status(?: code)?:?\s*|HTTP\/\d(?:\.\d)?\s)(?:5\d\d|429)\b/i,
+    /too ?many ?requests/i,
+    // network errors
+    /connection reset/i,
+    /connection refused/i,
+    /broken pipe/i,
+    /i\/o timeout/i,
+    /TLS handshake timeout/i,
+    /timeout awaiting response headers/i,
+    /temporary failure in name resolution/i,
+    /unexpected EOF/i,
+    /: EOF\s*$/m,
+    // network errors from node, for the native client
+    /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN/,
+    /socket hang up/i,
+];
+
+export type ErrorClass = "retryable" | "fatal";
+
+/**
+ * Classify the error message or stderr of a failed push.
+ * Errors which are not recognized are treated as fatal.
+ */
+export function classifyError(stderr: string): ErrorClass {
+    if (FATAL_ERROR_PATTERNS.some((pattern) => pattern.test(stderr))) {
+        return "fatal";
+    }
+    if (RETRYABLE_ERROR_PATTERNS.some((pattern) => pattern.test(stderr))) {
+        return "retryable";
+    }
+    return "fatal";
+}
+
+export function getRetryOptions(): RetryOptions {
+    const attempts = getNumberInput(Inputs.RETRY_ATTEMPTS, 1);
+    if (!Number.isInteger(attempts)) {
+        throw new Error(`Input "${Inputs.RETRY_ATTEMPTS}" must be a whole number`);
+    }
+
+    return {
+        attempts,
+        initialDelaySeconds: getNumberInput(Inputs.RETRY_DELAY, 0),
+        backoffFactor: getNumberInput(Inputs.RETRY_BACKOFF, 1),
+        jitter: getNumberInput(Inputs.RETRY_JITTER, 0, 1),
+    };
+}
+
+function getDelaySeconds(options: RetryOptions, attempt: number): number {
+    const delay = options.initialDelaySeconds * (options.backoffFactor ** (attempt - 1));
+    // vary the delay by up to +/- jitter
+    const jitterFactor = 1 + (options.jitter * ((Math.random() * 2) - 1));
+    return delay * jitterFactor;
+}
+
+async function sleep(seconds: number): Promise<void> {
+    return new Promise((resolve) => {
+        setTimeout(resolve, seconds * 1000);
+    });
+}
+
+/**
+ * Run the given function until it succeeds, it fails with a fatal error, or the attempts run out.
+ * Errors are classified by their message, which for failed commands includes the stderr.
+ */
+export async function withRetry<T>(
+    options: RetryOptions,
+    runAttempt: (attempt: number) => Promise<T>,
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await runAttempt(attempt);
+        }
+        catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            if (classifyError(message) === "fatal") {
+                throw err;
+            }
+            if (attempt >= options.attempts) {
+                throw new Error(`Giving up after ${attempt} attempt${attempt !== 1 ? "s" : ""}. ${message}`);
+            }
+
+            const delaySeconds = getDelaySeconds(options, attempt);
+            core.warning(`Attempt ${attempt} of ${options.attempts} failed with a retryable error. `
+                + `Retrying in ${delaySeconds.toFixed(1)}s.`);
+            await sleep(delaySeconds);
+        }
+    }
+}
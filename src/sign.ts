@@ -0,0 +1,134 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import {
+    Descriptor, ImageManifest, MediaTypes,
+    sha256Digest,
+} from "./oci";
+import { RegistryClient } from "./registry-client";
+
+const SIMPLE_SIGNING_MEDIA_TYPE = "application/vnd.dev.cosign.simplesigning.v1+json";
+const SIGNATURE_ANNOTATION = "dev.cosignproject.cosign/signature";
+// cosign leaves the timestamps in the signature image's config unset
+const ZERO_TIME = "0001-01-01T00:00:00Z";
+
+const SUPPORTED_KEY_TYPES = [ "ec", "rsa", "ed25519" ];
+
+/**
+ * Load a PEM private key, given either as the contents of the key or as the path to the key file.
+ * The key may be encrypted with the password, but cosign's own encrypted key format is not supported.
+ */
+export async function loadSigningKey(keyInput: string, password: string): Promise<crypto.KeyObject> {
+    let keyPem = keyInput;
+    if (!keyInput.includes("-----BEGIN")) {
+        try {
+            keyPem = await fs.readFile(keyInput, "utf-8");
+        }
+        catch (err) {
+            throw new Error(`Failed to read signing key file "${keyInput}": ${err}`);
+        }
+    }
+
+    if (/-----BEGIN ENCRYPTED (SIGSTORE|COSIGN) PRIVATE KEY-----/.test(keyPem)) {
+        throw new Error(`Keys encrypted by cosign are not supported. Provide the key as a PKCS#8 PEM, `
+            + `which may be encrypted with a password, or as an unencrypted EC PEM.`);
+    }
+
+    let key: crypto.KeyObject;
+    try {
+        key = crypto.createPrivateKey({ key: keyPem, format: "pem", passphrase: password || undefined });
+    }
+    catch (err) {
+        throw new Error(`Failed to load signing key: ${err instanceof Error ? err.message : err}`);
+    }
+
+    if (!SUPPORTED_KEY_TYPES.includes(key.asymmetricKeyType ?? "")) {
+        throw new Error(`Signing key type "${key.asymmetricKeyType}" is not supported. `
+            + `Supported key types are "${SUPPORTED_KEY_TYPES.join(", ")}"`);
+    }
+    return key;
+}
+
+/**
+ * The tag under which cosign looks for the signatures of the given digest, eg. "sha256-abc123.sig"
+ */
+export function getSignatureTag(digest: string): string {
+    return `${digest.replace(":", "-")}.sig`;
+}
+
+function signPayload(key: crypto.KeyObject, payload: Buffer): string {
+    // ed25519 signs the payload itself, the other key types sign its SHA-256 hash
+    const algorithm = key.asymmetricKeyType === "ed25519" ? null : "sha256";
+    return crypto.sign(algorithm, payload, key).toString("base64");
+}
+
+/**
+ * Sign the manifest with the given digest, and push the signature in the same format as "cosign sign".
+ * Signatures which are already in the registry for the digest are kept.
+ * Returns the reference to the signature, eg. "quay.io/namespace/image:sha256-abc123.sig"
+ *
+ * @param dockerReference The repository the image was pushed to, as cosign names it, eg. "quay.io/namespace/image"
+ */
+export async function signImage(
+    client: RegistryClient,
+    repository: string,
+    dockerReference: string,
+    digest: string,
+    key: crypto.KeyObject,
+): Promise<string> {
+    const payload = Buffer.from(JSON.stringify({
+        critical: {
+            identity: { "docker-reference": dockerReference },
+            image: { "docker-manifest-digest": digest },
+            type: "cosign container image signature",
+        },
+        optional: null,
+    }));
+    const signature = signPayload(key, payload);
+
+    const payloadDescriptor = await client.pushBlobContent(repository, SIMPLE_SIGNING_MEDIA_TYPE, payload);
+    const signatureLayer: Descriptor = {
+        ...payloadDescriptor,
+        annotations: { [SIGNATURE_ANNOTATION]: signature },
+    };
+
+    const signatureTag = getSignatureTag(digest);
+    const existing = await client.getManifest(repository, signatureTag);
+    const layers = existing != null
+        ? (JSON.parse(existing.content.toString()) as ImageManifest).layers
+        : [];
+    layers.push(signatureLayer);
+
+    const config = {
+        architecture: "",
+        created: ZERO_TIME,
+        history: layers.map(() => ({ created: ZERO_TIME })),
+        os: "",
+        rootfs: {
+            type: "layers",
+            diff_ids: layers.map((layer) => layer.digest),
+        },
+        config: {},
+    };
+    const configContent = Buffer.from(JSON.stringify(config));
+    const configDescriptor = await client.pushBlobContent(repository, MediaTypes.OCI_CONFIG, configContent);
+
+    const manifest: ImageManifest = {
+        schemaVersion: 2,
+        mediaType: MediaTypes.OCI_MANIFEST,
+        config: configDescriptor,
+        layers,
+    };
+    const content = Buffer.from(JSON.stringify(manifest));
+    await client.putManifest(repository, signatureTag, {
+        mediaType: MediaTypes.OCI_MANIFEST,
+        digest: sha256Digest(content),
+        content,
+    });
+
+    return `${dockerReference}:${signatureTag}`;
+}
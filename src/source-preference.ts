@@ -0,0 +1,82 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { Inputs } from "./generated/inputs-outputs";
+import { ImageStorages } from "./engines";
+
+/**
+ * Which image storage to push a tag from, when both have the tag but as different images.
+ */
+export enum SourcePreferences {
+    PODMAN = "podman",
+    DOCKER = "docker",
+    /** The image which was created last */
+    NEWEST = "newest",
+}
+
+/**
+ * The image storage a tag is pushed from, and why.
+ */
+export interface StorageDecision {
+    readonly storage: ImageStorages;
+    readonly reason: string;
+}
+
+export function getSourcePreference(): SourcePreferences {
+    const preference = core.getInput(Inputs.SOURCE_PREFERENCE) || SourcePreferences.NEWEST;
+    const preferences = Object.values(SourcePreferences) as string[];
+    if (!preferences.includes(preference)) {
+        throw new Error(`Input "${Inputs.SOURCE_PREFERENCE}" must be one of "${preferences.join(", ")}", `
+            + `but it is "${preference}"`);
+    }
+    return preference as SourcePreferences;
+}
+
+/**
+ * Choose the image storage to push a tag from, by the IDs of the image in each storage.
+ * An image with the same ID in both storages is the same image, so it is pushed from the Podman image storage,
+ * which does not need to copy it out of Docker.
+ *
+ * @param getCreated Returns when the image in the storage was created, which is only needed for "newest"
+ */
+export async function chooseStorage(
+    podmanId: string | undefined,
+    dockerId: string | undefined,
+    preference: SourcePreferences,
+    getCreated: (storage: ImageStorages) => Promise<Date>,
+): Promise<StorageDecision> {
+    if (dockerId == null) {
+        return { storage: ImageStorages.CONTAINERS, reason: "it is only in the Podman image storage" };
+    }
+    if (podmanId == null) {
+        return { storage: ImageStorages.DOCKER, reason: "it is only in the Docker image storage" };
+    }
+    if (podmanId === dockerId) {
+        return { storage: ImageStorages.CONTAINERS, reason: `both image storages have the same image "${podmanId}"` };
+    }
+
+    const differs = `the image storages have different images, "${podmanId}" in Podman and "${dockerId}" in Docker`;
+    if (preference === SourcePreferences.PODMAN) {
+        return { storage: ImageStorages.CONTAINERS, reason: `${differs}, and "${Inputs.SOURCE_PREFERENCE}" is podman` };
+    }
+    if (preference === SourcePreferences.DOCKER) {
+        return { storage: ImageStorages.DOCKER, reason: `${differs}, and "${Inputs.SOURCE_PREFERENCE}" is docker` };
+    }
+
+    const podmanCreated = await getCreated(ImageStorages.CONTAINERS);
+    const dockerCreated = await getCreated(ImageStorages.DOCKER);
+    // the Podman image wins a tie, since it does not need to be copied out of Docker
+    if (dockerCreated.getTime() > podmanCreated.getTime()) {
+        return {
+            storage: ImageStorages.DOCKER,
+            reason: `${differs}, and the one in Docker was created last, at ${dockerCreated.toISOString()}`,
+        };
+    }
+    return {
+        storage: ImageStorages.CONTAINERS,
+        reason: `${differs}, and the one in Podman was created last, at ${podmanCreated.toISOString()}`,
+    };
+}
@@ -0,0 +1,103 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { isIndexMediaType } from "./oci";
+import { DestinationResult, PushStatuses } from "./results";
+
+const STATUS_LABELS: Record<PushStatuses, string> = {
+    [PushStatuses.PUSHED]: "✅ Pushed",
+    [PushStatuses.RETAGGED]: "✅ Tagged",
+    [PushStatuses.SKIPPED]: "⏭️ Skipped",
+};
+
+const STORAGE_LABELS: Record<string, string> = {
+    podman: "Podman",
+    docker: "Docker",
+    registry: "Registry",
+};
+
+export interface PushSummaryFailure {
+    readonly registry: string;
+    readonly message: string;
+}
+
+export function formatSize(bytes: number): string {
+    const units = [ "B", "KiB", "MiB", "GiB", "TiB" ];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function code(text: string): string {
+    return `<code>${escapeHtml(text)}</code>`;
+}
+
+/**
+ * Write the results of the pushes to the job summary.
+ */
+export async function writePushSummary(
+    rows: DestinationResult[],
+    failures: PushSummaryFailure[],
+    dryRun: boolean,
+): Promise<void> {
+    core.summary.addHeading(dryRun ? "Push to registry (dry run)" : "Push to registry", 2);
+    if (dryRun) {
+        core.summary.addRaw("🧪 This was a dry run, so nothing was pushed. "
+            + "The table shows what would have been pushed.", true);
+    }
+
+    if (rows.length > 0) {
+        core.summary.addTable([
+            [ "Source", "Destination", "Status", "Digest", "Storage", "Type", "Size", "Duration" ]
+                .map((header) => ({ data: header, header: true })),
+            ...rows.map((row) => [
+                code(row.source),
+                code(row.destination),
+                STATUS_LABELS[row.status],
+                row.digest != null ? code(row.digest) : "unknown",
+                STORAGE_LABELS[row.storage] ?? row.storage,
+                row.isManifest ? "Manifest list" : "Image",
+                row.details != null ? formatSize(row.details.size) : "unknown",
+                `${row.durationSeconds.toFixed(1)}s`,
+            ]),
+        ]);
+    }
+
+    // each manifest list is listed once, although it may have been pushed to many destinations
+    const listed = new Set<string>();
+    for (const row of rows) {
+        if (row.digest == null || row.details == null || !isIndexMediaType(row.details.mediaType)
+            || listed.has(row.digest)) {
+            continue;
+        }
+        listed.add(row.digest);
+
+        core.summary.addHeading(`Platforms of ${code(row.digest)}`, 3);
+        core.summary.addTable([
+            [ "Platform", "Digest", "Size" ].map((header) => ({ data: header, header: true })),
+            ...row.details.platforms.map((platform) => [
+                platform.platform,
+                code(platform.digest),
+                formatSize(platform.size),
+            ]),
+        ]);
+    }
+
+    if (failures.length > 0) {
+        core.summary.addList(failures.map((failure) => `❌ Failed to push to ${code(failure.registry)}: `
+            + escapeHtml(failure.message)));
+    }
+
+    await core.summary.write();
+}
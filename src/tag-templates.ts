@@ -0,0 +1,191 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as core from "@actions/core";
+import { promises as fs } from "fs";
+import { Inputs } from "./generated/inputs-outputs";
+import { splitReference } from "./reference";
+
+/**
+ * The values which tag templates are filled with, from the event which triggered the workflow.
+ * A value is undefined if the event does not have it, eg. "pr" for a push.
+ */
+export interface TagContext {
+    readonly sha: string | undefined;
+    /** The branch which was pushed to, or the head branch of a pull request */
+    readonly branch: string | undefined;
+    readonly pr: string | undefined;
+    /** The git tag which was pushed */
+    readonly gitTag: string | undefined;
+    readonly defaultBranch: string | undefined;
+}
+
+interface EventPayload {
+    repository?: { default_branch?: string };
+    pull_request?: { number?: number };
+    number?: number;
+}
+
+interface SemVer {
+    /** "v" if the git tag has it, or else empty */
+    prefix: string;
+    major: string;
+    minor: string;
+    patch: string;
+    prerelease: string | undefined;
+}
+
+// eg. "{{short-sha}}", without spaces, since the tags are separated by whitespace
+const TEMPLATE = /\{\{([\w.-]+)\}\}/g;
+const SHORT_SHA_LENGTH = 7;
+const MAX_TAG_LENGTH = 128;
+// https://semver.org, with an optional "v" prefix, as git tags usually have, which is kept in the tags
+const SEMVER = /^(v?)(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const DEFAULT_BRANCH_TAG = "latest";
+
+async function readEventPayload(): Promise<EventPayload> {
+    const eventPath = process.env.GITHUB_EVENT_PATH;
+    if (!eventPath) {
+        return {};
+    }
+    try {
+        return JSON.parse(await fs.readFile(eventPath, "utf-8")) as EventPayload;
+    }
+    catch (err) {
+        core.warning(`Failed to read the event payload "${eventPath}": ${err}`);
+        return {};
+    }
+}
+
+/**
+ * Read the values for the tag templates from the environment and the event payload of the workflow run.
+ */
+export async function getTagContext(): Promise<TagContext> {
+    const payload = await readEventPayload();
+    const ref = process.env.GITHUB_REF ?? "";
+
+    let branch = process.env.GITHUB_HEAD_REF || undefined;
+    if (branch == null && ref.startsWith("refs/heads/")) {
+        branch = ref.substring("refs/heads/".length);
+    }
+    const prNumber = payload.pull_request?.number ?? /^refs\/pull\/(\d+)\//.exec(ref)?.[1];
+
+    return {
+        sha: process.env.GITHUB_SHA || undefined,
+        branch,
+        pr: prNumber != null ? String(prNumber) : undefined,
+        gitTag: ref.startsWith("refs/tags/") ? ref.substring("refs/tags/".length) : undefined,
+        defaultBranch: payload.repository?.default_branch,
+    };
+}
+
+function parseSemVer(version: string | undefined): SemVer | undefined {
+    const match = version != null ? SEMVER.exec(version) : null;
+    if (match == null) {
+        return undefined;
+    }
+    return {
+        prefix: match[1], major: match[2], minor: match[3], patch: match[4], prerelease: match[5],
+    };
+}
+
+function formatVersion(semver: SemVer): string {
+    const version = `${semver.prefix}${semver.major}.${semver.minor}.${semver.patch}`;
+    return semver.prerelease ? `${version}-${semver.prerelease}` : version;
+}
+
+/**
+ * Returns the values which the template expands to, which are empty if the context does not have the value.
+ * Only "semver" expands to more than one value.
+ */
+function getTemplateValues(name: string, context: TagContext): string[] {
+    const semver = parseSemVer(context.gitTag);
+    const values: Partial<Record<string, string>> = {
+        sha: context.sha,
+        "short-sha": context.sha?.substring(0, SHORT_SHA_LENGTH),
+        branch: context.branch,
+        pr: context.pr,
+        tag: context.gitTag,
+        version: semver && formatVersion(semver),
+        // a prerelease is not the latest of its major or minor version, and 0.x versions are not stable
+        major: semver && !semver.prerelease && semver.major !== "0" ? `${semver.prefix}${semver.major}` : undefined,
+        "major.minor": semver && !semver.prerelease ? `${semver.prefix}${semver.major}.${semver.minor}` : undefined,
+        latest: context.branch != null && context.pr == null && context.branch === context.defaultBranch
+            ? DEFAULT_BRANCH_TAG
+            : undefined,
+    };
+
+    if (name === "semver") {
+        return [ values.version, values["major.minor"], values.major ]
+            .filter((value): value is string => value != null);
+    }
+    if (!(name in values)) {
+        const names = [ ...Object.keys(values), "semver" ].map((known) => `{{${known}}}`);
+        throw new Error(`Unknown template "{{${name}}}" in input "${Inputs.TAGS}". `
+            + `The templates are "${names.join(", ")}"`);
+    }
+    const value = values[name];
+    return value != null ? [ value ] : [];
+}
+
+/**
+ * Expand the templates in the tags, such as "sha-{{short-sha}}", with the values from the context.
+ * A tag with "{{semver}}" expands to a tag for each of the version, the major and minor version, and the major version.
+ * A tag is left out if the context does not have a value for one of its templates, eg. "pr-{{pr}}" for a push.
+ */
+export function expandTagTemplates(tags: string[], context: TagContext): string[] {
+    const expanded: string[] = [];
+    for (const tag of tags) {
+        let candidates = [ tag ];
+        for (const [ template, name ] of tag.matchAll(TEMPLATE)) {
+            const values = getTemplateValues(name, context).map((value) => sanitizeTagValue(value));
+            candidates = candidates.flatMap((candidate) => values.map((value) => candidate.replace(template, value)));
+        }
+        if (candidates.length === 0) {
+            core.info(`Skipping tag "${tag}", since this "${process.env.GITHUB_EVENT_NAME ?? "unknown"}" event `
+                + `has no value for it`);
+        }
+        for (const candidate of candidates) {
+            if (!expanded.includes(candidate)) {
+                expanded.push(candidate);
+            }
+        }
+    }
+    return expanded;
+}
+
+/**
+ * Replace the characters which may not be in a tag, such as the "/" of a branch name, with "-".
+ */
+function sanitizeTagValue(value: string): string {
+    return value.toLowerCase().replace(/[^\w.-]+/g, "-");
+}
+
+/**
+ * Make the tag valid in a reference, which allows at most 128 word characters, "." and "-", not starting with either.
+ * Characters which are not allowed are replaced with "-", and tags are lowercased, as they have always been.
+ */
+export function sanitizeTag(tag: string): string {
+    const sanitized = sanitizeTagValue(tag).replace(/^[.-]+/, "").substring(0, MAX_TAG_LENGTH);
+    if (!sanitized) {
+        throw new Error(`Tag "${tag}" has no characters which are allowed in a tag`);
+    }
+    return sanitized;
+}
+
+/**
+ * Sanitize the tag, or the tag of a full image name, whose other parts are lowercased.
+ */
+export function normalizeTag(tag: string): string {
+    // a full image name has a "/" before its repository, a ":" before its tag, or an "@" before its digest
+    if (!/[/:@]/.test(tag)) {
+        return sanitizeTag(tag);
+    }
+    const { name, tag: imageTag, digest } = splitReference(tag);
+    return name.toLowerCase()
+        + (imageTag != null ? `:${sanitizeTag(imageTag)}` : "")
+        + (digest != null ? `@${digest}` : "");
+}
@@ -6,10 +6,17 @@
 import * as ini from "ini";
 import { promises as fs } from "fs";
 import * as core from "@actions/core";
+import * as exec from "@actions/exec";
 import * as path from "path";
 import * as io from "@actions/io";
 import * as os from "os";
 
+export interface ExecResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+}
+
 async function findStorageDriver(filePaths: string[]): Promise<string> {
     let storageDriver = "";
     for (const filePath of filePaths) {
@@ -38,7 +45,7 @@ export async function isStorageDriverOverlay(): Promise<boolean> {
     return (storageDriver === "overlay");
 }
 
-async function fileExists(filePath: string): Promise<boolean> {
+export async function fileExists(filePath: string): Promise<boolean> {
     try {
         await fs.access(filePath);
         return true;
@@ -62,32 +69,125 @@ export async function findFuseOverlayfsPath(): Promise<string | undefined> {
     return fuseOverlayfsPath;
 }
 
+const tempDirs: string[] = [];
+
+/**
+ * Create a temporary directory, which is removed by removeTempDirs when the action finishes.
+ */
+export async function createTempDir(prefix: string): Promise<string> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+    tempDirs.push(tempDir);
+    return tempDir;
+}
+
+export async function removeTempDirs(): Promise<void> {
+    for (const tempDir of tempDirs.splice(0)) {
+        try {
+            await fs.rm(tempDir, { recursive: true, force: true });
+        }
+        catch (err) {
+            core.warning(`Failed to remove temporary directory ${tempDir}: ${err}`);
+        }
+    }
+}
+
 export function splitByNewline(s: string): string[] {
     return s.split(/\r?\n/);
 }
 
-export function isFullImageName(image: string): boolean {
-    return image.indexOf(":") > 0;
+export function getNumberInput(input: string, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+    const value = core.getInput(input);
+    const parsed = Number(value);
+    if (!value || Number.isNaN(parsed) || parsed < min || parsed > max) {
+        throw new Error(`Input "${input}" must be a number between ${min} and ${max}, but it is "${value}"`);
+    }
+    return parsed;
 }
 
-export function getFullImageName(image: string, tag: string): string {
-    if (isFullImageName(tag)) {
-        return tag;
+/**
+ * Read an OIDC token from the token file, or else request one for the audience from GitHub Actions,
+ * which is only possible if the workflow has the "id-token: write" permission.
+ * Returns undefined if there is no token.
+ */
+export async function getIdentityToken(tokenFile: string | undefined, audience: string): Promise<string | undefined> {
+    if (tokenFile) {
+        const token = (await fs.readFile(tokenFile, "utf-8")).trim();
+        core.setSecret(token);
+        return token;
+    }
+    if (!process.env.ACTIONS_ID_TOKEN_REQUEST_URL) {
+        return undefined;
     }
-    return `${image}:${tag}`;
+    return core.getIDToken(audience);
 }
 
-const DOCKER_IO = `docker.io`;
-const DOCKER_IO_NAMESPACED = DOCKER_IO + `/library`;
-
-export function getFullDockerImageName(image: string): string {
-    switch (image.split("/").length) {
-    case 1:
-        return `${DOCKER_IO_NAMESPACED}/${image}`;
-    case 2:
-        if (image.includes("amazonaws.com")) return image;
-        return `${DOCKER_IO}/${image}`;
-    default:
-        return image;
+export type ExecuteOptions = exec.ExecOptions & { group?: boolean, groupName?: string, bufferOutput?: boolean };
+
+export async function execute(
+    executable: string,
+    args: string[],
+    execOptions: ExecuteOptions = {},
+): Promise<ExecResult> {
+    let stdout = "";
+    let stderr = "";
+    // stdout and stderr in the order they were written, for bufferOutput
+    let output = "";
+
+    const finalExecOptions = { ...execOptions };
+    finalExecOptions.ignoreReturnCode = true; // the return code is processed below
+    if (execOptions.bufferOutput) {
+        finalExecOptions.silent = true;
+    }
+
+    finalExecOptions.listeners = {
+        stdline: (line): void => {
+            stdout += `${line}\n`;
+            output += `${line}\n`;
+        },
+        errline: (line): void => {
+            stderr += `${line}\n`;
+            output += `${line}\n`;
+        },
+    };
+
+    const groupName = execOptions.groupName ?? [ executable, ...args ].join(" ");
+    if (execOptions.group && !execOptions.bufferOutput) {
+        core.startGroup(groupName);
+    }
+
+    try {
+        const exitCode = await exec.exec(executable, args, finalExecOptions);
+
+        if (execOptions.ignoreReturnCode !== true && exitCode !== 0) {
+            // Throwing the stderr as part of the Error makes the stderr show up in the action outline,
+            // which saves some clicking when debugging.
+            let error = `${path.basename(executable)} exited with code ${exitCode}`;
+            if (stderr) {
+                error += `\n${stderr}`;
+            }
+            throw new Error(error);
+        }
+
+        return {
+            exitCode,
+            stdout,
+            stderr,
+        };
+    }
+
+    finally {
+        if (execOptions.bufferOutput) {
+            // print everything at once, so that the output of commands running concurrently doesn't interleave
+            if (execOptions.group) {
+                core.startGroup(groupName);
+            }
+            core.info(`[command]${[ executable, ...args ].join(" ")}`);
+            if (output) {
+                core.info(output.replace(/\n$/, ""));
+            }
+        }
+        if (execOptions.group) {
+            core.endGroup();
+        }
     }
 }
@@ -0,0 +1,86 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { annotateNativeImage, getAnnotations } from "../src/annotations";
+import {
+    ImageIndex, ImageManifest, ManifestData, MediaTypes, sha256Digest,
+} from "../src/oci";
+
+function toManifestData(mediaType: string, manifest: ImageManifest | ImageIndex): ManifestData {
+    const content = Buffer.from(JSON.stringify(manifest));
+    return { mediaType, digest: sha256Digest(content), content };
+}
+
+const IMAGE = toManifestData(MediaTypes.OCI_MANIFEST, {
+    schemaVersion: 2,
+    mediaType: MediaTypes.OCI_MANIFEST,
+    config: { mediaType: MediaTypes.OCI_CONFIG, digest: `sha256:${"c".repeat(64)}`, size: 2 },
+    layers: [],
+});
+
+describe("annotations", () => {
+    describe("getAnnotations", () => {
+        afterEach(() => {
+            delete process.env.INPUT_ANNOTATIONS;
+        });
+
+        it("reads the annotations of the input", async () => {
+            process.env.INPUT_ANNOTATIONS = "org.example = a=b\ncom.example.empty=";
+
+            assert.deepEqual(await getAnnotations(), {
+                "org.example": "a=b",
+                "com.example.empty": "",
+            });
+        });
+
+        it("fails for an annotation without a key", async () => {
+            process.env.INPUT_ANNOTATIONS = "=value";
+
+            await assert.rejects(getAnnotations(), /Annotation "=value" in input "annotations" must be in the form/);
+        });
+    });
+
+    describe("annotateNativeImage", () => {
+        it("adds the annotations to the root index, keeping its other annotations", () => {
+            const index = toManifestData(MediaTypes.OCI_INDEX, {
+                schemaVersion: 2,
+                mediaType: MediaTypes.OCI_INDEX,
+                manifests: [{ mediaType: MediaTypes.OCI_MANIFEST, digest: IMAGE.digest, size: IMAGE.content.length }],
+                annotations: { "org.example.kept": "kept", "org.example": "old" },
+            });
+
+            const annotated = annotateNativeImage({ manifests: [ IMAGE, index ] }, { "org.example": "new" }, "app");
+
+            const [ image, annotatedIndex ] = annotated.manifests;
+            assert.equal(image, IMAGE);
+            assert.equal(annotatedIndex.mediaType, MediaTypes.OCI_INDEX);
+            assert.equal(annotatedIndex.digest, sha256Digest(annotatedIndex.content));
+            assert.deepEqual((JSON.parse(annotatedIndex.content.toString()) as ImageIndex).annotations, {
+                "org.example.kept": "kept",
+                "org.example": "new",
+            });
+        });
+
+        it("leaves an image which has the annotations already as it is", () => {
+            const image = { manifests: [ IMAGE ] };
+            const annotated = annotateNativeImage(image, { "org.example": "new" }, "app");
+
+            assert.equal(annotateNativeImage(annotated, { "org.example": "new" }, "app"), annotated);
+        });
+
+        it("leaves Docker manifests without annotations", () => {
+            const manifest = toManifestData(MediaTypes.DOCKER_MANIFEST, {
+                schemaVersion: 2,
+                mediaType: MediaTypes.DOCKER_MANIFEST,
+                config: { mediaType: MediaTypes.DOCKER_CONFIG, digest: `sha256:${"c".repeat(64)}`, size: 2 },
+                layers: [],
+            });
+            const image = { manifests: [ manifest ] };
+
+            assert.equal(annotateNativeImage(image, { "org.example": "new" }, "app"), image);
+        });
+    });
+});
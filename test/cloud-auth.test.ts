@@ -0,0 +1,312 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { signAwsRequest } from "../src/aws-auth";
+import { CloudAuthOptions, getCloudAuthOptions, getCloudCredentials } from "../src/cloud-auth";
+import { StubServer, startStubServer } from "./helpers/stub-server";
+
+const ECR_REGISTRY = "123456789012.dkr.ecr.us-east-1.amazonaws.com";
+const GCP_REGISTRY = "europe-west1-docker.pkg.dev";
+const ACR_REGISTRY = "example.azurecr.io";
+
+const CLOUD_ENV = [
+    "AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY", "AWS_SESSION_TOKEN", "AWS_ROLE_ARN", "AWS_WEB_IDENTITY_TOKEN_FILE",
+    "GOOGLE_APPLICATION_CREDENTIALS",
+    "AZURE_CLIENT_ID", "AZURE_TENANT_ID", "AZURE_CLIENT_SECRET", "AZURE_FEDERATED_TOKEN_FILE", "AZURE_AUTHORITY_HOST",
+    "ACTIONS_ID_TOKEN_REQUEST_URL",
+];
+
+function decodeJwtPart(part: string): Record<string, unknown> {
+    return JSON.parse(Buffer.from(part, "base64url").toString()) as Record<string, unknown>;
+}
+
+describe("signAwsRequest", () => {
+    it("signs requests with Signature Version 4", () => {
+        // the "get-vanilla" case of the AWS Signature Version 4 test suite
+        const headers = signAwsRequest(
+            {
+                method: "GET",
+                url: "https://example.amazonaws.com/",
+                headers: {},
+                body: "",
+            },
+            { accessKeyId: "AKIDEXAMPLE", secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY" },
+            "us-east-1",
+            "service",
+            new Date("2015-08-30T12:36:00Z"),
+        );
+        assert.equal(
+            headers.Authorization,
+            "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, "
+                + "SignedHeaders=host;x-amz-date, "
+                + "Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31",
+        );
+    });
+});
+
+describe("cloud auth", () => {
+    let server: StubServer;
+    let tempDir: string;
+    const originalEnv: Record<string, string | undefined> = {};
+
+    /** Start the stub server, and point the endpoints of the "cloud-auth-endpoints" input at its paths */
+    async function startEndpoints(
+        routes: Parameters<typeof startStubServer>[0],
+        endpoints: Record<string, string>,
+    ): Promise<CloudAuthOptions> {
+        server = await startStubServer(routes);
+        process.env["INPUT_CLOUD-AUTH-ENDPOINTS"] = Object.entries(endpoints)
+            .map(([ name, endpointPath ]) => `${name}=${server.baseUrl}${endpointPath}`)
+            .join("\n");
+        return getCloudAuthOptions();
+    }
+
+    async function writeTempFile(name: string, content: string): Promise<string> {
+        const filePath = path.join(tempDir, name);
+        await fs.writeFile(filePath, content);
+        return filePath;
+    }
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "push-to-registry-test-cloud-"));
+        for (const name of CLOUD_ENV) {
+            originalEnv[name] = process.env[name];
+            delete process.env[name];
+        }
+    });
+
+    afterEach(async () => {
+        await server.close();
+        await fs.rm(tempDir, { recursive: true, force: true });
+        delete process.env["INPUT_CLOUD-AUTH-ENDPOINTS"];
+        for (const name of CLOUD_ENV) {
+            if (originalEnv[name] == null) {
+                delete process.env[name];
+            }
+            else {
+                process.env[name] = originalEnv[name];
+            }
+        }
+    });
+
+    describe("AWS", () => {
+        const awsCredentials = {
+            accessKeyId: "ASIAEXAMPLE",
+            secretAccessKey: "secret-access-key",
+            sessionToken: "session-token",
+        };
+
+        it("assumes the role with the web identity token, and gets an ECR token with a signed request", async () => {
+            process.env.AWS_ROLE_ARN = "arn:aws:iam::123456789012:role/push";
+            process.env.AWS_WEB_IDENTITY_TOKEN_FILE = await writeTempFile("aws-token", "oidc-token\n");
+
+            const options = await startEndpoints({
+                "GET /sts": () => ({
+                    body: `<AssumeRoleWithWebIdentityResponse><AssumeRoleWithWebIdentityResult><Credentials>`
+                        + `<AccessKeyId>${awsCredentials.accessKeyId}</AccessKeyId>`
+                        + `<SecretAccessKey>${awsCredentials.secretAccessKey}</SecretAccessKey>`
+                        + `<SessionToken>${awsCredentials.sessionToken}</SessionToken>`
+                        + `</Credentials></AssumeRoleWithWebIdentityResult></AssumeRoleWithWebIdentityResponse>`,
+                }),
+                "POST /ecr": (request) => {
+                    // sign the request again with the date it was signed at, which has to give the same signature
+                    const amzDate = String(request.headers["x-amz-date"]);
+                    const date = new Date(amzDate.replace(/^(\d{4})(\d\d)(\d\d)T(\d\d)(\d\d)(\d\d)Z$/, "$1-$2-$3T$4:$5:$6Z"));
+                    const expected = signAwsRequest({
+                        method: "POST",
+                        url: request.url.toString(),
+                        headers: {
+                            "Content-Type": String(request.headers["content-type"]),
+                            "X-Amz-Target": String(request.headers["x-amz-target"]),
+                        },
+                        body: request.body,
+                    }, awsCredentials, "us-east-1", "ecr", date);
+                    if (request.headers.authorization !== expected.Authorization) {
+                        return { status: 403, body: JSON.stringify({ message: "The signature does not match" }) };
+                    }
+                    const token = Buffer.from("AWS:ecr-password").toString("base64");
+                    return { body: JSON.stringify({ authorizationData: [{ authorizationToken: token }] }) };
+                },
+            }, { "aws-sts": "/sts", "aws-ecr": "/ecr" });
+
+            const credentials = await getCloudCredentials(ECR_REGISTRY, options);
+            assert.deepEqual(credentials, { username: "AWS", password: "ecr-password" });
+
+            const [ stsRequest, ecrRequest ] = server.requests;
+            assert.equal(stsRequest.url.searchParams.get("Action"), "AssumeRoleWithWebIdentity");
+            assert.equal(stsRequest.url.searchParams.get("RoleArn"), process.env.AWS_ROLE_ARN);
+            assert.equal(stsRequest.url.searchParams.get("WebIdentityToken"), "oidc-token");
+            assert.equal(
+                ecrRequest.headers["x-amz-target"],
+                "AmazonEC2ContainerRegistry_V20150921.GetAuthorizationToken",
+            );
+            assert.equal(ecrRequest.headers["x-amz-security-token"], awsCredentials.sessionToken);
+            assert.match(
+                String(ecrRequest.headers.authorization),
+                /^AWS4-HMAC-SHA256 Credential=ASIAEXAMPLE\/\d{8}\/us-east-1\/ecr\/aws4_request, SignedHeaders=/,
+            );
+        });
+
+        it("fails with the message of STS", async () => {
+            process.env.AWS_ROLE_ARN = "arn:aws:iam::123456789012:role/push";
+            process.env.AWS_WEB_IDENTITY_TOKEN_FILE = await writeTempFile("aws-token", "oidc-token");
+
+            const options = await startEndpoints({
+                "GET /sts": () => ({
+                    status: 403,
+                    body: "<ErrorResponse><Error><Message>Not authorized</Message></Error></ErrorResponse>",
+                }),
+            }, { "aws-sts": "/sts" });
+
+            await assert.rejects(
+                getCloudCredentials(ECR_REGISTRY, options),
+                new RegExp(`^Error: Failed to get AWS credentials for "${ECR_REGISTRY}": `
+                    + `Error: Failed to assume role "arn:aws:iam::123456789012:role/push": status 403 Not authorized$`),
+            );
+        });
+    });
+
+    describe("Google Cloud", () => {
+        it("gets an access token with a JWT signed by the service account key", async () => {
+            const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+            process.env.GOOGLE_APPLICATION_CREDENTIALS = await writeTempFile("key.json", JSON.stringify({
+                type: "service_account",
+                client_email: "pusher@project.iam.gserviceaccount.com",
+                private_key: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+                token_uri: "https://oauth2.googleapis.com/token",
+            }));
+
+            const options = await startEndpoints({
+                "POST /token": (request) => {
+                    const form = new URLSearchParams(request.body);
+                    const [ header, claims, signature ] = (form.get("assertion") ?? "").split(".");
+                    const signed = Buffer.from(`${header}.${claims}`);
+                    if (!crypto.verify("sha256", signed, publicKey, Buffer.from(signature, "base64url"))) {
+                        return { status: 400, body: JSON.stringify({ error: "invalid_grant" }) };
+                    }
+                    return { body: JSON.stringify({ access_token: "gcp-access-token" }) };
+                },
+            }, { "gcp-oauth2": "/token" });
+
+            const credentials = await getCloudCredentials(GCP_REGISTRY, options);
+            assert.deepEqual(credentials, { username: "oauth2accesstoken", password: "gcp-access-token" });
+
+            const form = new URLSearchParams(server.requests[0].body);
+            assert.equal(form.get("grant_type"), "urn:ietf:params:oauth:grant-type:jwt-bearer");
+            const [ header, claims ] = (form.get("assertion") ?? "").split(".");
+            assert.deepEqual(decodeJwtPart(header), { alg: "RS256", typ: "JWT" });
+            const claimsJson = decodeJwtPart(claims);
+            assert.equal(claimsJson.iss, "pusher@project.iam.gserviceaccount.com");
+            // the audience is the token URI of the key, which the endpoint override does not change
+            assert.equal(claimsJson.aud, "https://oauth2.googleapis.com/token");
+            assert.equal(claimsJson.scope, "https://www.googleapis.com/auth/cloud-platform");
+        });
+
+        it("exchanges the subject token with STS, and impersonates the service account", async () => {
+            process.env.GOOGLE_APPLICATION_CREDENTIALS = await writeTempFile("external.json", JSON.stringify({
+                type: "external_account",
+                audience: "//iam.googleapis.com/projects/1/locations/global/workloadIdentityPools/p/providers/gh",
+                subject_token_type: "urn:ietf:params:oauth:token-type:jwt",
+                token_url: "https://sts.googleapis.com/v1/token",
+                service_account_impersonation_url: "https://iamcredentials.googleapis.com/v1/projects/-/"
+                    + "serviceAccounts/pusher@project.iam.gserviceaccount.com:generateAccessToken",
+                credential_source: {
+                    file: await writeTempFile("subject.json", JSON.stringify({ value: "oidc-token" })),
+                    format: { type: "json", subject_token_field_name: "value" },
+                },
+            }));
+
+            const options = await startEndpoints({
+                "POST /sts": () => ({ body: JSON.stringify({ access_token: "federated-token" }) }),
+                "POST /iam": (request) => (request.headers.authorization === "Bearer federated-token"
+                    ? { body: JSON.stringify({ accessToken: "impersonated-token" }) }
+                    : { status: 401, body: "{}" }),
+            }, { "gcp-sts": "/sts", "gcp-iam": "/iam" });
+
+            const credentials = await getCloudCredentials(GCP_REGISTRY, options);
+            assert.deepEqual(credentials, { username: "oauth2accesstoken", password: "impersonated-token" });
+
+            const [ stsRequest, iamRequest ] = server.requests;
+            const form = new URLSearchParams(stsRequest.body);
+            assert.equal(form.get("grant_type"), "urn:ietf:params:oauth:grant-type:token-exchange");
+            assert.equal(form.get("subject_token"), "oidc-token");
+            assert.equal(form.get("subject_token_type"), "urn:ietf:params:oauth:token-type:jwt");
+            assert.match(form.get("audience") ?? "", /^\/\/iam\.googleapis\.com\/projects\/1\//);
+            assert.deepEqual(JSON.parse(iamRequest.body), {
+                scope: [ "https://www.googleapis.com/auth/cloud-platform" ],
+                lifetime: "3600s",
+            });
+        });
+    });
+
+    describe("Azure", () => {
+        beforeEach(() => {
+            process.env.AZURE_CLIENT_ID = "client-id";
+            process.env.AZURE_TENANT_ID = "tenant-id";
+        });
+
+        const acrRoutes = {
+            "POST /token": () => ({ body: JSON.stringify({ access_token: "aad-access-token" }) }),
+            "POST /exchange": () => ({ body: JSON.stringify({ refresh_token: "acr-refresh-token" }) }),
+        };
+
+        it("gets an Azure AD token with the federated token, and exchanges it for an ACR refresh token", async () => {
+            process.env.AZURE_FEDERATED_TOKEN_FILE = await writeTempFile("azure-token", "oidc-token");
+            const options = await startEndpoints(acrRoutes, { "azure-token": "/token", "azure-acr": "/exchange" });
+
+            const credentials = await getCloudCredentials(ACR_REGISTRY, options);
+            assert.deepEqual(credentials, {
+                username: "00000000-0000-0000-0000-000000000000",
+                password: "acr-refresh-token",
+            });
+
+            const [ tokenRequest, exchangeRequest ] = server.requests.map(({ body }) => new URLSearchParams(body));
+            assert.equal(tokenRequest.get("client_id"), "client-id");
+            assert.equal(tokenRequest.get("grant_type"), "client_credentials");
+            assert.equal(tokenRequest.get("scope"), "https://management.azure.com/.default");
+            assert.equal(tokenRequest.get("client_assertion"), "oidc-token");
+            assert.equal(
+                tokenRequest.get("client_assertion_type"),
+                "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+            );
+            assert.equal(tokenRequest.get("client_secret"), null);
+            assert.deepEqual(Object.fromEntries(exchangeRequest), {
+                grant_type: "access_token",
+                service: ACR_REGISTRY,
+                tenant: "tenant-id",
+                access_token: "aad-access-token",
+            });
+        });
+
+        it("gets an Azure AD token with the client secret", async () => {
+            process.env.AZURE_CLIENT_SECRET = "client-secret";
+            const options = await startEndpoints(acrRoutes, { "azure-token": "/token", "azure-acr": "/exchange" });
+
+            await getCloudCredentials(ACR_REGISTRY, options);
+            const tokenRequest = new URLSearchParams(server.requests[0].body);
+            assert.equal(tokenRequest.get("client_secret"), "client-secret");
+            assert.equal(tokenRequest.get("client_assertion"), null);
+        });
+
+        it("fails if ACR rejects the exchange", async () => {
+            process.env.AZURE_CLIENT_SECRET = "client-secret";
+            const options = await startEndpoints({
+                ...acrRoutes,
+                "POST /exchange": () => ({ status: 401, body: "{\"errors\":[{\"code\":\"UNAUTHORIZED\"}]}" }),
+            }, { "azure-token": "/token", "azure-acr": "/exchange" });
+
+            await assert.rejects(
+                getCloudCredentials(ACR_REGISTRY, options),
+                new RegExp(`^Error: Failed to get Azure credentials for "${ACR_REGISTRY}": `
+                    + `Error: POST ${server.baseUrl}/exchange failed with status 401 Unauthorized`),
+            );
+        });
+    });
+});
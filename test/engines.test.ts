@@ -0,0 +1,450 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { CompressionFormats } from "../src/compression";
+import {
+    ContainerEngine, Engines, ImageStorages, PushRequest,
+    findEngine,
+} from "../src/engines";
+import { sha256Digest } from "../src/oci";
+import { FakeBin, FakeResponse, createFakeBin } from "./helpers/fake-bin";
+
+const DIGEST = `sha256:${"d".repeat(64)}`;
+const IMAGE_ID = `sha256:${"1".repeat(64)}`;
+
+async function useEngine(fakeBin: FakeBin, name: Engines, responses: FakeResponse[] = []): Promise<ContainerEngine> {
+    await fakeBin.add(name, responses);
+    process.env.INPUT_ENGINE = name;
+    return findEngine();
+}
+
+function getPushRequest(fakeBin: FakeBin, request: Partial<PushRequest> = {}): PushRequest {
+    return {
+        source: "app:v1",
+        storage: ImageStorages.CONTAINERS,
+        destination: "quay.io/ns/app:v1",
+        isManifest: false,
+        digestFile: path.join(fakeBin.dir, "digest.txt"),
+        tlsVerify: "",
+        authFile: undefined,
+        extraArgs: [],
+        compression: { format: undefined, level: undefined, addFormats: [] },
+        ...request,
+    };
+}
+
+describe("engines", () => {
+    let fakeBin: FakeBin;
+
+    beforeEach(async () => {
+        fakeBin = await createFakeBin();
+    });
+
+    afterEach(async () => {
+        delete process.env.INPUT_ENGINE;
+        await fakeBin.remove();
+    });
+
+    describe("findEngine", () => {
+        it("uses the first engine which is installed", async () => {
+            await fakeBin.add(Engines.SKOPEO);
+            await fakeBin.add(Engines.DOCKER);
+
+            const engine = await findEngine();
+
+            assert.equal(engine.name, Engines.SKOPEO);
+            assert.deepEqual(await fakeBin.getCalls(Engines.SKOPEO), [[ "--version" ]]);
+        });
+
+        it("fails if none of the engines is installed", async () => {
+            await assert.rejects(findEngine(), /None of "podman, buildah, skopeo, docker" is installed/);
+        });
+
+        it("fails for an unknown engine", async () => {
+            process.env.INPUT_ENGINE = "rkt";
+            await assert.rejects(findEngine(), /Input "engine" must be one of "auto, podman, buildah, skopeo, docker"/);
+        });
+    });
+
+    describe("podman", () => {
+        it("looks up images and manifest lists in the containers storage", async () => {
+            const engine = await useEngine(fakeBin, Engines.PODMAN, [
+                { args: [ "image", "exists", "missing:v1" ], exitCode: 1 },
+                { args: [ "manifest", "exists", "missing:v1" ], exitCode: 1 },
+            ]);
+
+            assert.equal(await engine.imageExists("app:v1", ImageStorages.CONTAINERS), true);
+            assert.equal(await engine.imageExists("missing:v1", ImageStorages.CONTAINERS), false);
+            assert.equal(await engine.manifestExists("app:v1"), true);
+            assert.equal(await engine.manifestExists("missing:v1"), false);
+            assert.deepEqual((await fakeBin.getCalls(Engines.PODMAN)).slice(1), [
+                [ "image", "exists", "app:v1" ],
+                [ "image", "exists", "missing:v1" ],
+                [ "manifest", "exists", "app:v1" ],
+                [ "manifest", "exists", "missing:v1" ],
+            ]);
+        });
+
+        it("inspects images", async () => {
+            const engine = await useEngine(fakeBin, Engines.PODMAN, [{
+                args: [ "image", "inspect", "app:v1", "--format", "json" ],
+                stdout: JSON.stringify([{
+                    Id: "1".repeat(64),
+                    Created: "2024-01-02T03:04:05Z",
+                    Os: "linux",
+                    Architecture: "arm64",
+                    Variant: "v8",
+                    Config: { User: "1001", Labels: { maintainer: "me" } },
+                    Annotations: { "org.example": "value" },
+                }]),
+            }]);
+
+            assert.deepEqual(await engine.inspectImage("app:v1", ImageStorages.CONTAINERS), {
+                id: IMAGE_ID,
+                created: new Date("2024-01-02T03:04:05Z"),
+                platform: { os: "linux", architecture: "arm64", variant: "v8" },
+                labels: { maintainer: "me" },
+                user: "1001",
+                annotations: { "org.example": "value" },
+            });
+        });
+
+        it("pushes images, and reads the digest file", async () => {
+            const engine = await useEngine(fakeBin, Engines.PODMAN, [
+                { args: [ "push" ], writeFile: { flag: "--digestfile", content: DIGEST } },
+            ]);
+            const request = getPushRequest(fakeBin, {
+                tlsVerify: "false",
+                authFile: "/tmp/auth.json",
+                extraArgs: [ "--remove-signatures" ],
+            });
+
+            assert.equal(await engine.push(request, {}), DIGEST);
+            assert.deepEqual((await fakeBin.getCalls(Engines.PODMAN)).slice(1), [[
+                "push", "--quiet", "--digestfile", request.digestFile, "app:v1", "quay.io/ns/app:v1",
+                "--remove-signatures", "--tls-verify=false", "--authfile=/tmp/auth.json",
+            ]]);
+        });
+
+        it("pushes manifest lists with all their images, compressed", async () => {
+            const engine = await useEngine(fakeBin, Engines.PODMAN);
+            const request = getPushRequest(fakeBin, {
+                isManifest: true,
+                compression: { format: CompressionFormats.ZSTD, level: 10, addFormats: [ CompressionFormats.GZIP ] },
+            });
+
+            assert.deepEqual(await engine.getPushCommands(request), [[
+                path.join(fakeBin.dir, "podman"), "manifest", "push", "--quiet", "--digestfile", request.digestFile,
+                "--compression-format=zstd", "--compression-level=10", "--add-compression=gzip",
+                "app:v1", "quay.io/ns/app:v1", "--all",
+            ]]);
+        });
+
+        it("pushes images of the Docker image storage from a temporary image storage", async () => {
+            const engine = await useEngine(fakeBin, Engines.PODMAN);
+            const request = getPushRequest(fakeBin, { storage: ImageStorages.DOCKER });
+
+            try {
+                const [ command ] = await engine.getPushCommands(request);
+                const storageRoot = command[command.indexOf("--root") + 1];
+                assert.match(storageRoot, /podman-from-docker-/);
+                assert.deepEqual(command, [
+                    path.join(fakeBin.dir, "podman"), "--root", storageRoot, "push", "--quiet",
+                    "--digestfile", request.digestFile, "docker.io/library/app:v1", "quay.io/ns/app:v1",
+                ]);
+                await fs.access(storageRoot);
+            }
+            finally {
+                await engine.cleanup();
+            }
+        });
+
+        it("copies images to OCI layouts, compressed", async () => {
+            const engine = await useEngine(fakeBin, Engines.PODMAN);
+            const request = getPushRequest(fakeBin, {
+                compression: { format: CompressionFormats.ZSTD, level: undefined, addFormats: [] },
+            });
+
+            await engine.exportImage(request, "/tmp/layout");
+            assert.deepEqual((await fakeBin.getCalls(Engines.PODMAN)).slice(1), [[
+                "push", "--quiet", "--digestfile", request.digestFile, "--compression-format=zstd",
+                "app:v1", "oci:/tmp/layout",
+            ]]);
+        });
+
+        it("creates, inspects, pushes and removes manifest lists", async () => {
+            const index = { schemaVersion: 2, manifests: [] };
+            const engine = await useEngine(fakeBin, Engines.PODMAN, [
+                { args: [ "manifest", "inspect" ], stdout: JSON.stringify(index) },
+            ]);
+
+            const access = { tlsVerify: "false", authFile: "/tmp/auth.json" };
+            await engine.createManifestList("list");
+            await engine.addToManifestList("list", "docker://quay.io/ns/app:arm", {
+                os: "linux", architecture: "arm", variant: "v7",
+            }, access);
+            await engine.addToManifestList("list", "containers-storage:app:amd", undefined, {
+                tlsVerify: "", authFile: undefined,
+            });
+            assert.deepEqual(await engine.inspectManifestList("list"), index);
+            await engine.annotateManifestList("list", { "org.example": "value", "org.example.empty": "" });
+            await engine.copyManifestList("list", "oci:/tmp/layout", access);
+            await engine.removeManifestList("list");
+
+            assert.deepEqual((await fakeBin.getCalls(Engines.PODMAN)).slice(1), [
+                [ "manifest", "create", "list" ],
+                [ "manifest", "add", "--tls-verify=false", "--authfile=/tmp/auth.json",
+                    "--os", "linux", "--arch", "arm", "--variant", "v7", "list", "docker://quay.io/ns/app:arm" ],
+                [ "manifest", "add", "list", "containers-storage:app:amd" ],
+                [ "manifest", "inspect", "list" ],
+                [ "manifest", "annotate", "--index", "--annotation", "org.example=value",
+                    "--annotation", "org.example.empty=", "list" ],
+                [ "manifest", "push", "--all", "--quiet", "--tls-verify=false", "--authfile=/tmp/auth.json",
+                    "list", "oci:/tmp/layout" ],
+                [ "manifest", "rm", "list" ],
+            ]);
+        });
+
+        it("fails if the push fails", async () => {
+            const engine = await useEngine(fakeBin, Engines.PODMAN, [
+                { args: [ "push" ], exitCode: 125, stderr: "unauthorized" },
+            ]);
+
+            await assert.rejects(engine.push(getPushRequest(fakeBin), {}), /podman exited with code 125\nunauthorized/);
+        });
+    });
+
+    describe("buildah", () => {
+        it("looks up and inspects images", async () => {
+            const engine = await useEngine(fakeBin, Engines.BUILDAH, [
+                { args: [ "inspect", "--type", "image", "missing:v1" ], exitCode: 1 },
+                {
+                    args: [ "inspect", "--type", "image", "app:v1" ],
+                    stdout: JSON.stringify({
+                        FromImageID: "1".repeat(64),
+                        OCIv1: { created: "2024-01-02T03:04:05Z", os: "linux", architecture: "amd64" },
+                    }),
+                },
+            ]);
+
+            assert.equal(await engine.imageExists("app:v1", ImageStorages.CONTAINERS), true);
+            assert.equal(await engine.imageExists("missing:v1", ImageStorages.CONTAINERS), false);
+            assert.deepEqual(await engine.inspectImage("app:v1", ImageStorages.CONTAINERS), {
+                id: IMAGE_ID,
+                created: new Date("2024-01-02T03:04:05Z"),
+                platform: { os: "linux", architecture: "amd64", variant: undefined },
+                labels: {},
+                user: "",
+                annotations: {},
+            });
+        });
+
+        it("pushes manifest lists to the docker transport", async () => {
+            const engine = await useEngine(fakeBin, Engines.BUILDAH);
+            const request = getPushRequest(fakeBin, { isManifest: true });
+
+            assert.deepEqual(await engine.getPushCommands(request), [[
+                path.join(fakeBin.dir, "buildah"), "manifest", "push", "--quiet", "--digestfile", request.digestFile,
+                "app:v1", "docker://quay.io/ns/app:v1", "--all",
+            ]]);
+        });
+    });
+
+    describe("skopeo", () => {
+        it("looks up images and manifest lists with their raw manifests", async () => {
+            const engine = await useEngine(fakeBin, Engines.SKOPEO, [
+                { args: [ "inspect", "--raw", "containers-storage:missing:v1" ], exitCode: 1 },
+                {
+                    args: [ "inspect", "--raw", "containers-storage:list:v1" ],
+                    stdout: JSON.stringify({ schemaVersion: 2, manifests: [] }),
+                },
+                {
+                    args: [ "inspect", "--raw", "containers-storage:app:v1" ],
+                    stdout: JSON.stringify({ schemaVersion: 2, config: { digest: IMAGE_ID, size: 10 }, layers: [] }),
+                },
+            ]);
+
+            assert.equal(await engine.imageExists("app:v1", ImageStorages.CONTAINERS), true);
+            assert.equal(await engine.imageExists("missing:v1", ImageStorages.CONTAINERS), false);
+            assert.equal(await engine.manifestExists("list:v1"), true);
+            assert.equal(await engine.manifestExists("app:v1"), false);
+            assert.equal(await engine.getImageId("app:v1", ImageStorages.CONTAINERS), IMAGE_ID);
+            assert.equal(
+                await engine.getImageId("list:v1", ImageStorages.CONTAINERS),
+                sha256Digest(JSON.stringify({ schemaVersion: 2, manifests: [] })),
+            );
+            assert.equal(await engine.getImageId("missing:v1", ImageStorages.CONTAINERS), undefined);
+        });
+
+        it("looks up images in the Docker image storage with the docker CLI", async () => {
+            await fakeBin.add(Engines.DOCKER, [
+                { args: [ "image", "inspect", "--format", "{{.Id}}", "missing:v1" ], exitCode: 1 },
+                { args: [ "image", "inspect", "--format", "{{.Id}}", "app:v1" ], stdout: `${IMAGE_ID}\n` },
+            ]);
+            const engine = await useEngine(fakeBin, Engines.SKOPEO);
+
+            assert.equal(await engine.imageExists("app:v1", ImageStorages.DOCKER), true);
+            assert.equal(await engine.imageExists("missing:v1", ImageStorages.DOCKER), false);
+            assert.equal(await engine.getImageId("app:v1", ImageStorages.DOCKER), IMAGE_ID);
+            assert.deepEqual((await fakeBin.getCalls(Engines.SKOPEO)).slice(1), []);
+        });
+
+        it("looks up images in the Docker daemon if the docker CLI is not installed", async () => {
+            const engine = await useEngine(fakeBin, Engines.SKOPEO, [{
+                args: [ "inspect", "--raw", "docker-daemon:app:v1" ],
+                stdout: JSON.stringify({ schemaVersion: 2, config: { digest: IMAGE_ID, size: 10 }, layers: [] }),
+            }]);
+
+            assert.equal(await engine.getImageId("app:v1", ImageStorages.DOCKER), IMAGE_ID);
+            assert.deepEqual((await fakeBin.getCalls(Engines.SKOPEO)).slice(1), [
+                [ "inspect", "--raw", "docker-daemon:app:v1" ],
+            ]);
+        });
+
+        it("copies images to the registry, and reads the digest file", async () => {
+            const engine = await useEngine(fakeBin, Engines.SKOPEO, [
+                { args: [ "copy" ], writeFile: { flag: "--digestfile", content: DIGEST } },
+            ]);
+            const request = getPushRequest(fakeBin, {
+                tlsVerify: "false",
+                authFile: "/tmp/auth.json",
+                compression: { format: CompressionFormats.GZIP, level: 9, addFormats: [] },
+            });
+
+            assert.equal(await engine.push(request, {}), DIGEST);
+            assert.deepEqual((await fakeBin.getCalls(Engines.SKOPEO)).slice(1), [[
+                "copy", "--quiet", "--digestfile", request.digestFile,
+                "--dest-compress-format=gzip", "--dest-compress-level=9", "--dest-tls-verify=false",
+                "--dest-authfile=/tmp/auth.json", "containers-storage:app:v1", "docker://quay.io/ns/app:v1",
+            ]]);
+        });
+
+        it("copies images to OCI layouts", async () => {
+            const engine = await useEngine(fakeBin, Engines.SKOPEO);
+            const request = getPushRequest(fakeBin, { storage: ImageStorages.DOCKER });
+
+            await engine.exportImage(request, "/tmp/layout");
+            assert.deepEqual((await fakeBin.getCalls(Engines.SKOPEO)).slice(1), [[
+                "copy", "--quiet", "--digestfile", request.digestFile, "docker-daemon:app:v1", "oci:/tmp/layout",
+            ]]);
+        });
+
+        it("cannot create manifest lists", async () => {
+            const engine = await useEngine(fakeBin, Engines.SKOPEO);
+            await assert.rejects(engine.createManifestList("list"), /Engine "skopeo" cannot create manifest lists/);
+        });
+    });
+
+    describe("docker", () => {
+        it("only looks up images in the Docker image storage", async () => {
+            const engine = await useEngine(fakeBin, Engines.DOCKER, [
+                { args: [ "image", "inspect", "--format", "{{.Id}}", "missing:v1" ], exitCode: 1 },
+                { args: [ "image", "inspect", "--format", "{{.Id}}", "app:v1" ], stdout: `${IMAGE_ID}\n` },
+            ]);
+
+            assert.equal(await engine.imageExists("app:v1", ImageStorages.DOCKER), true);
+            assert.equal(await engine.imageExists("missing:v1", ImageStorages.DOCKER), false);
+            assert.equal(await engine.imageExists("app:v1", ImageStorages.CONTAINERS), false);
+            assert.equal(await engine.getImageId("app:v1", ImageStorages.DOCKER), IMAGE_ID);
+            assert.equal(await engine.manifestExists("app:v1"), false);
+        });
+
+        it("tags the image as the destination, pushes it, and reads the digest from the output", async () => {
+            const engine = await useEngine(fakeBin, Engines.DOCKER, [
+                { args: [ "image", "inspect", "--format", "{{.Id}}", "quay.io/ns/app:v1" ], exitCode: 1 },
+                { args: [ "push" ], stdout: `v1: digest: ${DIGEST} size: 528\n` },
+            ]);
+            const request = getPushRequest(fakeBin, { storage: ImageStorages.DOCKER });
+
+            assert.equal(await engine.push(request, {}), DIGEST);
+            assert.equal(await fs.readFile(request.digestFile, "utf-8"), DIGEST);
+            assert.deepEqual((await fakeBin.getCalls(Engines.DOCKER)).slice(1), [
+                [ "image", "inspect", "--format", "{{.Id}}", "quay.io/ns/app:v1" ],
+                [ "tag", "app:v1", "quay.io/ns/app:v1" ],
+                [ "push", "quay.io/ns/app:v1" ],
+                [ "image", "rm", "quay.io/ns/app:v1" ],
+            ]);
+        });
+
+        it("points a tag which was there before the push back to its image", async () => {
+            const engine = await useEngine(fakeBin, Engines.DOCKER, [
+                { args: [ "image", "inspect", "--format", "{{.Id}}", "quay.io/ns/app:v1" ], stdout: IMAGE_ID },
+                { args: [ "push" ], exitCode: 1 },
+            ]);
+
+            await assert.rejects(engine.push(getPushRequest(fakeBin, { storage: ImageStorages.DOCKER }), {}));
+            assert.deepEqual((await fakeBin.getCalls(Engines.DOCKER)).slice(1), [
+                [ "image", "inspect", "--format", "{{.Id}}", "quay.io/ns/app:v1" ],
+                [ "tag", "app:v1", "quay.io/ns/app:v1" ],
+                [ "push", "quay.io/ns/app:v1" ],
+                [ "tag", IMAGE_ID, "quay.io/ns/app:v1" ],
+            ]);
+        });
+
+        it("does not tag an image which has the name of the destination already", async () => {
+            const engine = await useEngine(fakeBin, Engines.DOCKER);
+
+            await engine.push(getPushRequest(fakeBin, {
+                source: "docker.io/ns/app:v1",
+                storage: ImageStorages.DOCKER,
+                destination: "ns/app:v1",
+            }), {});
+            assert.deepEqual((await fakeBin.getCalls(Engines.DOCKER)).slice(1), [[ "push", "ns/app:v1" ]]);
+        });
+
+        it("passes the credentials in a docker config.json, with Docker Hub under its legacy key", async () => {
+            const engine = await useEngine(fakeBin, Engines.DOCKER);
+            const authFile = path.join(fakeBin.dir, "auth.json");
+            await fs.writeFile(authFile, JSON.stringify({
+                auths: {
+                    "docker.io": { auth: "aHViOnNlY3JldA==" },
+                    "quay.io/ns": { auth: "bnM6c2VjcmV0" },
+                    "ghcr.io/ns": { auth: "bnM6c2VjcmV0" },
+                    "ghcr.io": { auth: "Z2hjcjpzZWNyZXQ=" },
+                },
+            }));
+
+            await engine.push(getPushRequest(fakeBin, { storage: ImageStorages.DOCKER, authFile }), {});
+
+            assert.deepEqual(JSON.parse(await fs.readFile(path.join(fakeBin.dir, "config.json"), "utf-8")), {
+                auths: {
+                    "https://index.docker.io/v1/": { auth: "aHViOnNlY3JldA==" },
+                    "ghcr.io": { auth: "Z2hjcjpzZWNyZXQ=" },
+                    "quay.io": { auth: "bnM6c2VjcmV0" },
+                },
+            });
+            assert.deepEqual((await fakeBin.getCalls(Engines.DOCKER))[3], [
+                "--config", fakeBin.dir, "push", "quay.io/ns/app:v1",
+            ]);
+        });
+
+        it("returns no digest if the output of the push does not have it", async () => {
+            const engine = await useEngine(fakeBin, Engines.DOCKER, [
+                { args: [ "push" ], stdout: "v1: pushed\n" },
+            ]);
+
+            assert.equal(await engine.push(getPushRequest(fakeBin, { storage: ImageStorages.DOCKER }), {}), undefined);
+        });
+
+        it("cannot push manifest lists, set the compression or copy images to OCI layouts", async () => {
+            const engine = await useEngine(fakeBin, Engines.DOCKER);
+
+            await assert.rejects(
+                engine.getPushCommands(getPushRequest(fakeBin, { isManifest: true })),
+                /Engine "docker" cannot push manifest lists/
+            );
+            assert.throws(() => engine.getCompressionArgs({
+                format: CompressionFormats.GZIP, level: undefined, addFormats: [],
+            }), /Engine "docker" cannot set the compression/);
+            await assert.rejects(
+                engine.exportImage(getPushRequest(fakeBin), "/tmp/layout"),
+                /Engine "docker" cannot copy images to OCI layouts/
+            );
+        });
+    });
+});
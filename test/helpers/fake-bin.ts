@@ -0,0 +1,81 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/**
+ * How a fake executable answers a call.
+ */
+export interface FakeResponse {
+    /** The call is answered if these arguments are in its arguments, one after the other */
+    readonly args: string[];
+    readonly stdout?: string;
+    readonly stderr?: string;
+    readonly exitCode?: number;
+    /** Write the content to the file which follows the flag in the arguments, eg. the "--digestfile" */
+    readonly writeFile?: { readonly flag: string, readonly content: string };
+}
+
+/**
+ * A directory of fake executables, which is the whole PATH while it exists.
+ */
+export interface FakeBin {
+    readonly dir: string;
+    /**
+     * Add an executable which records each call, and answers it with the first response which matches it.
+     * Calls which match no response exit with 0 and print nothing.
+     */
+    add(name: string, responses?: FakeResponse[]): Promise<string>;
+    /** The arguments of each call of the executable, in order */
+    getCalls(name: string): Promise<string[][]>;
+    /** Restore the PATH and remove the executables */
+    remove(): Promise<void>;
+}
+
+// the script of every executable, which finds its responses and its calls next to itself
+const FAKE_SCRIPT = `
+const fs = require("fs");
+const path = require("path");
+const file = path.join(path.dirname(process.argv[1]), path.basename(process.argv[1]));
+const args = process.argv.slice(2);
+fs.appendFileSync(file + ".calls", JSON.stringify(args) + "\\n");
+const responses = JSON.parse(fs.readFileSync(file + ".json", "utf-8"));
+const matches = (expected) => args.some((_, start) => expected.every((arg, i) => args[start + i] === arg));
+const response = responses.find((candidate) => matches(candidate.args)) || {};
+if (response.writeFile) {
+    fs.writeFileSync(args[args.indexOf(response.writeFile.flag) + 1], response.writeFile.content);
+}
+// like real programs, the output ends with a newline
+const withNewline = (output) => (output && !output.endsWith("\\n") ? output + "\\n" : output || "");
+process.stdout.write(withNewline(response.stdout));
+process.stderr.write(withNewline(response.stderr));
+process.exitCode = response.exitCode || 0;
+`;
+
+export async function createFakeBin(): Promise<FakeBin> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "push-to-registry-test-bin-"));
+    const originalPath = process.env.PATH;
+    process.env.PATH = dir;
+
+    return {
+        dir,
+        add: async (name, responses = []) => {
+            const executable = path.join(dir, name);
+            await fs.writeFile(`${executable}.json`, JSON.stringify(responses));
+            await fs.writeFile(executable, `#!${process.execPath}\n${FAKE_SCRIPT}`, { mode: 0o755 });
+            return executable;
+        },
+        getCalls: async (name) => {
+            const calls = await fs.readFile(path.join(dir, `${name}.calls`), "utf-8").catch(() => "");
+            return calls.split("\n").filter((line) => line).map((line) => JSON.parse(line) as string[]);
+        },
+        remove: async () => {
+            process.env.PATH = originalPath;
+            await fs.rm(dir, { recursive: true, force: true });
+        },
+    };
+}
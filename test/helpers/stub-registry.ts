@@ -0,0 +1,229 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as crypto from "crypto";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface StubCredentials {
+    readonly username: string;
+    readonly password: string;
+}
+
+export interface StubManifest {
+    readonly mediaType: string;
+    readonly content: Buffer;
+}
+
+/**
+ * An OCI Distribution registry served over HTTP on localhost, which keeps everything in memory.
+ * It asks for bearer tokens like Docker Hub or Quay, and only accepts tokens whose scopes cover the request.
+ */
+export interface StubRegistry {
+    /** The registry's host and port, eg. "127.0.0.1:41234" */
+    readonly host: string;
+    /** "METHOD path" of each registry request, in order, without the token requests */
+    readonly requests: string[];
+    /** The URL of each token request, with the service and scope parameters */
+    readonly tokenRequests: URL[];
+    /** The blobs, by "repository@digest" */
+    readonly blobs: Map<string, Buffer>;
+    /** The manifests, by "repository:tag" and "repository@digest" */
+    readonly manifests: Map<string, StubManifest>;
+    close(): Promise<void>;
+}
+
+export const STUB_SERVICE = "stub-registry";
+
+function sha256(content: Buffer): string {
+    return `sha256:${crypto.createHash("sha256").update(content).digest("hex")}`;
+}
+
+async function readBody(request: http.IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+}
+
+function sendError(
+    response: http.ServerResponse,
+    status: number,
+    code: string,
+    headers: Record<string, string> = {},
+): void {
+    response.writeHead(status, { ...headers, "Content-Type": "application/json" });
+    response.end(JSON.stringify({ errors: [{ code, message: code.toLowerCase().replace(/_/g, " ") }] }));
+}
+
+export async function startStubRegistry(credentials: StubCredentials): Promise<StubRegistry> {
+    const requests: string[] = [];
+    const tokenRequests: URL[] = [];
+    const blobs = new Map<string, Buffer>();
+    const manifests = new Map<string, StubManifest>();
+    const uploads = new Map<string, Buffer[]>();
+    let host = "";
+
+    const challenge = (scope?: string): Record<string, string> => ({
+        "WWW-Authenticate": `Bearer realm="http://${host}/token",service="${STUB_SERVICE}"`
+            + (scope != null ? `,scope="${scope}"` : ""),
+    });
+
+    // the token is the list of scopes it was issued for
+    const getTokenScopes = (request: http.IncomingMessage): string[] | undefined => {
+        const authorization = request.headers.authorization ?? "";
+        if (!authorization.startsWith("Bearer ")) {
+            return undefined;
+        }
+        return JSON.parse(Buffer.from(authorization.substring(7), "base64").toString()) as string[];
+    };
+    const hasAccess = (scopes: string[], repository: string, action: string): boolean => scopes.some(
+        (scope) => scope.startsWith(`repository:${repository}:`) && scope.split(":")[2].split(",").includes(action)
+    );
+
+    const handleToken = (request: http.IncomingMessage, url: URL, response: http.ServerResponse): void => {
+        tokenRequests.push(url);
+        const expected = Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64");
+        if (request.headers.authorization !== `Basic ${expected}`) {
+            sendError(response, 401, "UNAUTHORIZED");
+            return;
+        }
+        const token = Buffer.from(JSON.stringify(url.searchParams.getAll("scope"))).toString("base64");
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ token }));
+    };
+
+    const handle = async (request: http.IncomingMessage, response: http.ServerResponse): Promise<void> => {
+        const url = new URL(request.url ?? "/", `http://${host}`);
+        const method = request.method ?? "GET";
+        if (url.pathname === "/token") {
+            handleToken(request, url, response);
+            return;
+        }
+        requests.push(`${method} ${url.pathname}`);
+        const body = await readBody(request);
+
+        const scopes = getTokenScopes(request);
+        if (url.pathname === "/v2/") {
+            if (scopes == null) {
+                sendError(response, 401, "UNAUTHORIZED", challenge());
+                return;
+            }
+            response.writeHead(200);
+            response.end();
+            return;
+        }
+
+        const match = /^\/v2\/(.+?)\/(blobs\/uploads|blobs|manifests)\/(.*)$/.exec(url.pathname);
+        if (match == null) {
+            sendError(response, 404, "NOT_FOUND");
+            return;
+        }
+        const [ , repository, kind, reference ] = match;
+        const action = method === "GET" || method === "HEAD" ? "pull" : "push";
+        if (scopes == null || !hasAccess(scopes, repository, action)) {
+            sendError(response, 401, "UNAUTHORIZED", challenge(`repository:${repository}:${action}`));
+            return;
+        }
+
+        if (kind === "blobs/uploads") {
+            const mount = url.searchParams.get("mount");
+            const from = url.searchParams.get("from");
+            if (method === "POST" && mount != null && from != null && hasAccess(scopes, from, "pull")) {
+                const mounted = blobs.get(`${from}@${mount}`);
+                if (mounted != null) {
+                    blobs.set(`${repository}@${mount}`, mounted);
+                    response.writeHead(201, { Location: `/v2/${repository}/blobs/${mount}` });
+                    response.end();
+                    return;
+                }
+            }
+
+            const id = method === "POST" ? crypto.randomUUID() : reference;
+            const chunks = uploads.get(id) ?? [];
+            uploads.set(id, [ ...chunks, body ]);
+            const digest = url.searchParams.get("digest");
+            if (method === "PUT" && digest != null) {
+                const content = Buffer.concat(uploads.get(id) ?? []);
+                uploads.delete(id);
+                if (sha256(content) !== digest) {
+                    sendError(response, 400, "DIGEST_INVALID");
+                    return;
+                }
+                blobs.set(`${repository}@${digest}`, content);
+                response.writeHead(201, {
+                    Location: `/v2/${repository}/blobs/${digest}`,
+                    "Docker-Content-Digest": digest,
+                });
+                response.end();
+                return;
+            }
+            response.writeHead(202, { Location: `/v2/${repository}/blobs/uploads/${id}` });
+            response.end();
+            return;
+        }
+
+        if (kind === "blobs") {
+            const blob = blobs.get(`${repository}@${reference}`);
+            if (blob == null) {
+                sendError(response, 404, "BLOB_UNKNOWN");
+                return;
+            }
+            response.writeHead(200, { "Content-Length": blob.length, "Docker-Content-Digest": reference });
+            response.end(method === "GET" ? blob : undefined);
+            return;
+        }
+
+        if (method === "PUT") {
+            const digest = sha256(body);
+            const manifest = { mediaType: request.headers["content-type"] ?? "", content: body };
+            manifests.set(`${repository}@${digest}`, manifest);
+            if (!reference.startsWith("sha256:")) {
+                manifests.set(`${repository}:${reference}`, manifest);
+            }
+            response.writeHead(201, {
+                Location: `/v2/${repository}/manifests/${digest}`,
+                "Docker-Content-Digest": digest,
+            });
+            response.end();
+            return;
+        }
+        const separator = reference.startsWith("sha256:") ? "@" : ":";
+        const manifest = manifests.get(`${repository}${separator}${reference}`);
+        if (manifest == null) {
+            sendError(response, 404, "MANIFEST_UNKNOWN");
+            return;
+        }
+        response.writeHead(200, {
+            "Content-Type": manifest.mediaType,
+            "Content-Length": manifest.content.length,
+            "Docker-Content-Digest": sha256(manifest.content),
+        });
+        response.end(method === "GET" ? manifest.content : undefined);
+    };
+
+    const server = http.createServer((request, response) => {
+        handle(request, response).catch((err) => {
+            response.writeHead(500);
+            response.end(String(err));
+        });
+    });
+    await new Promise<void>((resolve) => {
+        server.listen(0, "127.0.0.1", resolve);
+    });
+    host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        host,
+        requests,
+        tokenRequests,
+        blobs,
+        manifests,
+        close: async () => new Promise<void>((resolve, reject) => {
+            server.close((err) => (err ? reject(err) : resolve()));
+        }),
+    };
+}
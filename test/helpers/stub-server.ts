@@ -0,0 +1,81 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface StubRequest {
+    readonly method: string;
+    readonly url: URL;
+    readonly headers: http.IncomingHttpHeaders;
+    readonly body: string;
+}
+
+export interface StubReply {
+    readonly status?: number;
+    readonly headers?: Record<string, string>;
+    readonly body?: string;
+}
+
+/**
+ * Answers the requests to one path. Assertions which fail in a route fail the request with status 500.
+ */
+export type StubRoute = (request: StubRequest) => StubReply;
+
+/**
+ * An HTTP server on localhost which answers requests with the given routes, eg. to stand in for token endpoints.
+ */
+export interface StubServer {
+    /** eg. "http://127.0.0.1:41234" */
+    readonly baseUrl: string;
+    /** Each request, in order */
+    readonly requests: StubRequest[];
+    close(): Promise<void>;
+}
+
+/**
+ * @param routes The route for each method and path, eg. "POST /token". Other requests are answered with 404.
+ */
+export async function startStubServer(routes: Record<string, StubRoute>): Promise<StubServer> {
+    const requests: StubRequest[] = [];
+    let baseUrl = "";
+
+    const server = http.createServer((request, response) => {
+        const chunks: Buffer[] = [];
+        request.on("data", (chunk: Buffer) => chunks.push(chunk));
+        request.on("end", () => {
+            const stubRequest: StubRequest = {
+                method: request.method ?? "GET",
+                url: new URL(request.url ?? "/", baseUrl),
+                headers: request.headers,
+                body: Buffer.concat(chunks).toString(),
+            };
+            requests.push(stubRequest);
+
+            const route = routes[`${stubRequest.method} ${stubRequest.url.pathname}`] as StubRoute | undefined;
+            let reply: StubReply;
+            try {
+                reply = route != null ? route(stubRequest) : { status: 404, body: "not found" };
+            }
+            catch (err) {
+                reply = { status: 500, body: String(err) };
+            }
+            response.writeHead(reply.status ?? 200, reply.headers);
+            response.end(reply.body);
+        });
+    });
+    await new Promise<void>((resolve) => {
+        server.listen(0, "127.0.0.1", resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        baseUrl,
+        requests,
+        close: async () => new Promise<void>((resolve, reject) => {
+            server.close((err) => (err ? reject(err) : resolve()));
+        }),
+    };
+}
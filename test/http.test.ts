@@ -0,0 +1,52 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { httpRequest } from "../src/http";
+import { classifyError } from "../src/retry";
+
+describe("http", () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        server = http.createServer((request, response) => {
+            if (request.url === "/stall") {
+                // never respond, like a registry which stopped answering
+                return;
+            }
+            response.writeHead(404, { "Content-Type": "text/plain" });
+            response.end("not found");
+        });
+        await new Promise<void>((resolve) => {
+            server.listen(0, "127.0.0.1", resolve);
+        });
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => {
+            server.close(resolve);
+        });
+    });
+
+    it("resolves responses with error statuses", async () => {
+        const response = await httpRequest(`${baseUrl}/missing`, { method: "GET" });
+        assert.equal(response.statusCode, 404);
+        assert.equal(response.body.toString(), "not found");
+    });
+
+    it("fails requests to a stalled server with a retryable error", async () => {
+        const request = httpRequest(`${baseUrl}/stall`, { method: "GET", timeoutSeconds: 0.2 });
+        await assert.rejects(request, (err: Error) => {
+            assert.match(err.message, /^ETIMEDOUT: GET http:\/\/127\.0\.0\.1:\d+\/stall stalled/);
+            assert.equal(classifyError(err.message), "retryable");
+            return true;
+        });
+    });
+});
@@ -0,0 +1,94 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LocalImage, SourceTransports } from "../src/local-image";
+import { pushLocalImage } from "../src/native-client";
+import {
+    BlobFile, Descriptor, ImageIndex, ImageManifest, ManifestData, MediaTypes, sha256Digest,
+} from "../src/oci";
+import { RegistryClient } from "../src/registry-client";
+import { StubRegistry, startStubRegistry } from "./helpers/stub-registry";
+
+const CREDENTIALS = { username: "robot", password: "secret" };
+
+function toManifestData(mediaType: string, manifest: ImageManifest | ImageIndex): ManifestData {
+    const content = Buffer.from(JSON.stringify(manifest));
+    return { mediaType, digest: sha256Digest(content), content };
+}
+
+describe("native client", () => {
+    let registry: StubRegistry;
+    let blobDir: string;
+
+    async function writeBlob(mediaType: string, content: string): Promise<BlobFile> {
+        const digest = sha256Digest(content);
+        const blobPath = path.join(blobDir, digest.replace(":", "-"));
+        await fs.writeFile(blobPath, content);
+        return {
+            mediaType,
+            digest,
+            size: content.length,
+            path: blobPath,
+        };
+    }
+
+    beforeEach(async () => {
+        registry = await startStubRegistry(CREDENTIALS);
+        blobDir = await fs.mkdtemp(path.join(os.tmpdir(), "push-to-registry-test-blobs-"));
+    });
+
+    afterEach(async () => {
+        await registry.close();
+        await fs.rm(blobDir, { recursive: true, force: true });
+    });
+
+    it("pushes the blobs, then the manifests of an index, then the index by tag", async () => {
+        const config = await writeBlob(MediaTypes.OCI_CONFIG, "{}");
+        const layer = await writeBlob(MediaTypes.OCI_LAYER_GZIP, "layer");
+        const toDescriptor = ({ mediaType, digest, size }: BlobFile): Descriptor => ({ mediaType, digest, size });
+        const manifest = toManifestData(MediaTypes.OCI_MANIFEST, {
+            schemaVersion: 2,
+            mediaType: MediaTypes.OCI_MANIFEST,
+            config: toDescriptor(config),
+            layers: [ toDescriptor(layer) ],
+        });
+        const index = toManifestData(MediaTypes.OCI_INDEX, {
+            schemaVersion: 2,
+            mediaType: MediaTypes.OCI_INDEX,
+            manifests: [{
+                mediaType: manifest.mediaType,
+                digest: manifest.digest,
+                size: manifest.content.length,
+                platform: { architecture: "amd64", os: "linux" },
+            }],
+        });
+        const image: LocalImage = {
+            blobs: [ config, layer ],
+            manifests: [ manifest, index ],
+            transport: SourceTransports.OCI,
+        };
+
+        const client = new RegistryClient(registry.host, CREDENTIALS, false);
+        const messages: string[] = [];
+        const digest = await pushLocalImage(client, image, `${registry.host}/ns/app:v1`, (message) => {
+            messages.push(message);
+        });
+
+        assert.equal(digest, index.digest);
+        assert.deepEqual(
+            registry.requests.filter((request) => request.startsWith("PUT /v2/ns/app/manifests/")),
+            [ `PUT /v2/ns/app/manifests/${manifest.digest}`, "PUT /v2/ns/app/manifests/v1" ],
+        );
+        assert.ok(registry.blobs.has(`ns/app@${config.digest}`));
+        assert.ok(registry.blobs.has(`ns/app@${layer.digest}`));
+        assert.deepEqual(registry.manifests.get(`ns/app@${manifest.digest}`)?.content, manifest.content);
+        assert.deepEqual(registry.manifests.get("ns/app:v1")?.content, index.content);
+        assert.equal(messages[messages.length - 1], `Pushed ${MediaTypes.OCI_INDEX} ${index.digest}`);
+    });
+});
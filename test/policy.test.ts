@@ -0,0 +1,132 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ImageInfo } from "../src/engines";
+import { LocalImage, SourceTransports } from "../src/local-image";
+import { ImageManifest, MediaTypes, sha256Digest } from "../src/oci";
+import {
+    ImagePolicy,
+    checkPolicy, getEngineImageSubject, loadPolicy,
+} from "../src/policy";
+
+const EMPTY_POLICY: ImagePolicy = {
+    maxSize: undefined,
+    requiredLabels: [],
+    forbidRootUser: false,
+    allowedBaseDigests: [],
+};
+
+const IMAGE_INFO: ImageInfo = {
+    id: `sha256:${"c".repeat(64)}`,
+    created: new Date("2024-01-02T03:04:05Z"),
+    platform: { os: "linux", architecture: "amd64" },
+    labels: {},
+    user: "1001",
+    annotations: {},
+};
+
+/** An image as the engine exports it to an OCI layout, with a layer of the size */
+function getExportedImage(layerSize: number): LocalImage {
+    const manifest: ImageManifest = {
+        schemaVersion: 2,
+        mediaType: MediaTypes.OCI_MANIFEST,
+        config: { mediaType: MediaTypes.OCI_CONFIG, digest: IMAGE_INFO.id, size: 100 },
+        layers: [{ mediaType: MediaTypes.OCI_LAYER_GZIP, digest: `sha256:${"1".repeat(64)}`, size: layerSize }],
+    };
+    const content = Buffer.from(JSON.stringify(manifest));
+    return {
+        blobs: [],
+        manifests: [{ mediaType: MediaTypes.OCI_MANIFEST, digest: sha256Digest(content), content }],
+        transport: SourceTransports.OCI,
+    };
+}
+
+describe("policy", () => {
+    describe("loadPolicy", () => {
+        let policyDir: string;
+
+        beforeEach(async () => {
+            policyDir = await fs.mkdtemp(path.join(os.tmpdir(), "push-to-registry-test-policy-"));
+        });
+
+        afterEach(async () => {
+            await fs.rm(policyDir, { recursive: true, force: true });
+        });
+
+        it("loads the YAML of the input", async () => {
+            const policy = await loadPolicy("max-size: 1.5 KiB\n"
+                + "required-labels:\n  - maintainer\n"
+                + "forbid-root-user: true\n");
+            assert.deepEqual(policy, {
+                ...EMPTY_POLICY,
+                maxSize: 1536,
+                requiredLabels: [ "maintainer" ],
+                forbidRootUser: true,
+            });
+        });
+
+        it("loads a policy file", async () => {
+            const policyPath = path.join(policyDir, "policy.yml");
+            await fs.writeFile(policyPath, "max-size: 500MB\n");
+            assert.deepEqual(await loadPolicy(` ${policyPath} `), { ...EMPTY_POLICY, maxSize: 500 * 1000 ** 2 });
+        });
+
+        it("loads a mapping of one line as YAML", async () => {
+            assert.deepEqual(await loadPolicy("{ max-size: 500MB }"), { ...EMPTY_POLICY, maxSize: 500 * 1000 ** 2 });
+            assert.deepEqual(await loadPolicy("forbid-root-user: true"), { ...EMPTY_POLICY, forbidRootUser: true });
+        });
+
+        it("reads a file with a name which is YAML too, if the file exists", async () => {
+            const policyPath = path.join(policyDir, "forbid-root-user: true");
+            await fs.writeFile(policyPath, "required-labels: [ maintainer ]\n");
+            assert.deepEqual(await loadPolicy(policyPath), { ...EMPTY_POLICY, requiredLabels: [ "maintainer" ] });
+        });
+
+        it("fails for a policy file which does not exist", async () => {
+            const policyPath = path.join(policyDir, "missing.yml");
+            await assert.rejects(
+                loadPolicy(policyPath),
+                new RegExp(`^Error: Failed to read policy file "${policyPath}": `),
+            );
+        });
+
+        it("fails for unknown rules", async () => {
+            await assert.rejects(
+                loadPolicy("{ maxSize: 500MB }"),
+                /^Error: Unknown policy rule "maxSize". The rules are "max-size, required-labels, forbid-root-user, /,
+            );
+        });
+    });
+
+    describe("checkPolicy", () => {
+        const policy: ImagePolicy = { ...EMPTY_POLICY, maxSize: 1000 };
+
+        it("checks the size of the image as the engine exported it", () => {
+            const subject = getEngineImageSubject("app:v1", IMAGE_INFO, getExportedImage(900));
+            assert.equal(subject.size, 1000);
+
+            checkPolicy(policy, [ subject ]);
+            assert.throws(
+                () => checkPolicy(policy, [ getEngineImageSubject("app:v1", IMAGE_INFO, getExportedImage(901)) ]),
+                /"app:v1": its size of 1001 bytes is more than "max-size" of 1000 bytes/,
+            );
+        });
+
+        it("fails if the size of the image is not known", () => {
+            const subject = getEngineImageSubject("app:v1", IMAGE_INFO, undefined);
+
+            assert.throws(
+                () => checkPolicy(policy, [ subject ]),
+                /^Error: ❌ 1 policy violation, so nothing was pushed:\n {2}"app:v1": its size is not known, /,
+            );
+            // the size is only needed for "max-size"
+            checkPolicy(EMPTY_POLICY, [ subject ]);
+        });
+    });
+});
@@ -0,0 +1,139 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { CompressionFormats, CompressionOptions } from "../src/compression";
+import { ImageManifest, MediaTypes, sha256Digest } from "../src/oci";
+import { PushActions, planPush } from "../src/preflight";
+import { RegistryClient } from "../src/registry-client";
+import { StubRegistry, startStubRegistry } from "./helpers/stub-registry";
+
+const CREDENTIALS = { username: "robot", password: "secret" };
+const CONFIG_DIGEST = `sha256:${"c".repeat(64)}`;
+const LAYER_DIGEST = `sha256:${"1".repeat(64)}`;
+
+function getCompression(format: CompressionFormats, level?: number): CompressionOptions {
+    return { format, level, addFormats: [] };
+}
+
+describe("preflight", () => {
+    let registry: StubRegistry;
+    let client: RegistryClient;
+
+    beforeEach(async () => {
+        registry = await startStubRegistry(CREDENTIALS);
+        // without TLS verification, the client falls back to HTTP
+        client = new RegistryClient(registry.host, CREDENTIALS, false);
+    });
+
+    afterEach(async () => {
+        await registry.close();
+    });
+
+    /** Put a manifest of the config into the registry as the tag, and return its digest */
+    function addManifest(
+        tag: string,
+        layerMediaType: string,
+        annotations?: Record<string, string>,
+    ): string {
+        const manifest: ImageManifest = {
+            schemaVersion: 2,
+            mediaType: MediaTypes.OCI_MANIFEST,
+            config: { mediaType: MediaTypes.OCI_CONFIG, digest: CONFIG_DIGEST, size: 2 },
+            layers: [{ mediaType: layerMediaType, digest: LAYER_DIGEST, size: 10 }],
+            annotations,
+        };
+        const content = Buffer.from(JSON.stringify(manifest));
+        const digest = sha256Digest(content);
+        registry.manifests.set(`ns/app:${tag}`, { mediaType: MediaTypes.OCI_MANIFEST, content });
+        registry.manifests.set(`ns/app@${digest}`, { mediaType: MediaTypes.OCI_MANIFEST, content });
+        return digest;
+    }
+
+    describe("planPush", () => {
+        it("pushes a tag which does not exist", async () => {
+            const plan = await planPush(client, `${registry.host}/ns/app:v1`, { configDigest: CONFIG_DIGEST }, []);
+
+            assert.deepEqual(plan, { action: PushActions.PUSH, existingDigest: undefined });
+        });
+
+        it("skips a tag which points to a manifest of the same config", async () => {
+            const digest = addManifest("v1", MediaTypes.OCI_LAYER_GZIP);
+
+            const plan = await planPush(client, `${registry.host}/ns/app:v1`, { configDigest: CONFIG_DIGEST }, []);
+
+            assert.deepEqual(plan, { action: PushActions.SKIP, digest, existingDigest: digest });
+        });
+
+        it("skips a tag whose layers have the compression of the push", async () => {
+            const digest = addManifest("v1", "application/vnd.oci.image.layer.v1.tar+zstd");
+
+            const plan = await planPush(client, `${registry.host}/ns/app:v1`, {
+                configDigest: CONFIG_DIGEST,
+                compression: getCompression(CompressionFormats.ZSTD),
+            }, []);
+
+            assert.equal(plan.action, PushActions.SKIP);
+            assert.equal(plan.digest, digest);
+        });
+
+        it("pushes a tag whose layers are compressed otherwise", async () => {
+            const digest = addManifest("v1", MediaTypes.OCI_LAYER_GZIP);
+
+            const plan = await planPush(client, `${registry.host}/ns/app:v1`, {
+                configDigest: CONFIG_DIGEST,
+                compression: getCompression(CompressionFormats.ZSTD),
+            }, []);
+
+            assert.deepEqual(plan, { action: PushActions.PUSH, existingDigest: digest });
+        });
+
+        it("tells zstd:chunked layers from zstd layers by their annotation", async () => {
+            addManifest("v1", "application/vnd.oci.image.layer.v1.tar+zstd");
+
+            const plan = await planPush(client, `${registry.host}/ns/app:v1`, {
+                configDigest: CONFIG_DIGEST,
+                compression: getCompression(CompressionFormats.ZSTD_CHUNKED),
+            }, []);
+
+            assert.equal(plan.action, PushActions.PUSH);
+        });
+
+        it("pushes a tag if the compression has a level, which the manifest does not record", async () => {
+            addManifest("v1", MediaTypes.OCI_LAYER_GZIP);
+
+            const plan = await planPush(client, `${registry.host}/ns/app:v1`, {
+                configDigest: CONFIG_DIGEST,
+                compression: getCompression(CompressionFormats.GZIP, 9),
+            }, []);
+
+            assert.equal(plan.action, PushActions.PUSH);
+        });
+
+        it("pushes a tag whose manifest does not have the annotations of the push", async () => {
+            const digest = addManifest("v1", MediaTypes.OCI_LAYER_GZIP, { "org.example": "old" });
+            const local = { configDigest: CONFIG_DIGEST, annotations: { "org.example": "new" } };
+
+            assert.equal((await planPush(client, `${registry.host}/ns/app:v1`, local, [])).action, PushActions.PUSH);
+
+            const annotatedDigest = addManifest("v1", MediaTypes.OCI_LAYER_GZIP, { "org.example": "new" });
+            const plan = await planPush(client, `${registry.host}/ns/app:v1`, local, []);
+            assert.deepEqual(plan, {
+                action: PushActions.SKIP,
+                digest: annotatedDigest,
+                existingDigest: annotatedDigest,
+            });
+            assert.notEqual(annotatedDigest, digest);
+        });
+
+        it("retags a manifest which is in the repository under another tag", async () => {
+            const digest = addManifest("v1", MediaTypes.OCI_LAYER_GZIP);
+
+            const plan = await planPush(client, `${registry.host}/ns/app:v2`, { manifestDigest: digest }, []);
+
+            assert.deepEqual(plan, { action: PushActions.RETAG, digest, existingDigest: undefined });
+        });
+    });
+});
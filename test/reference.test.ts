@@ -0,0 +1,123 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import {
+    isTag, isValidReference, normalizeReference, parseImageReference, splitReference,
+} from "../src/reference";
+
+const DIGEST = `sha256:${"0123456789abcdef".repeat(4)}`;
+
+describe("reference", () => {
+    describe("splitReference", () => {
+        it("splits the tag and the digest off the name", () => {
+            assert.deepEqual(
+                splitReference("quay.io/ns/app:v1"),
+                { name: "quay.io/ns/app", tag: "v1", digest: undefined },
+            );
+            assert.deepEqual(splitReference(`app@${DIGEST}`), { name: "app", tag: undefined, digest: DIGEST });
+            assert.deepEqual(splitReference(`app:v1@${DIGEST}`), { name: "app", tag: "v1", digest: DIGEST });
+        });
+
+        it("does not take the port of the registry for a tag", () => {
+            assert.deepEqual(
+                splitReference("localhost:5000/app"),
+                { name: "localhost:5000/app", tag: undefined, digest: undefined },
+            );
+            assert.deepEqual(
+                splitReference("[::1]:5000/app:v1"),
+                { name: "[::1]:5000/app", tag: "v1", digest: undefined },
+            );
+        });
+    });
+
+    describe("parseImageReference", () => {
+        it("puts names without a registry on Docker Hub", () => {
+            assert.deepEqual(parseImageReference("app:v1"), {
+                registry: "docker.io", repository: "library/app", tag: "v1", digest: undefined,
+            });
+            assert.deepEqual(parseImageReference("ns/app"), {
+                registry: "docker.io", repository: "ns/app", tag: undefined, digest: undefined,
+            });
+            assert.deepEqual(parseImageReference("index.docker.io/app"), {
+                registry: "docker.io", repository: "library/app", tag: undefined, digest: undefined,
+            });
+        });
+
+        it("parses registries with a port, and IPv6 addresses", () => {
+            assert.deepEqual(parseImageReference("registry.example.com:5000/ns/app:v1"), {
+                registry: "registry.example.com:5000", repository: "ns/app", tag: "v1", digest: undefined,
+            });
+            assert.deepEqual(parseImageReference("localhost/app"), {
+                registry: "localhost", repository: "app", tag: undefined, digest: undefined,
+            });
+            assert.deepEqual(parseImageReference("[2001:db8::1]:5000/app:v1"), {
+                registry: "[2001:db8::1]:5000", repository: "app", tag: "v1", digest: undefined,
+            });
+        });
+
+        it("parses nested namespaces, and tags with digests", () => {
+            assert.deepEqual(parseImageReference(`ghcr.io/org/team/sub/app:1.2.3@${DIGEST}`), {
+                registry: "ghcr.io", repository: "org/team/sub/app", tag: "1.2.3", digest: DIGEST,
+            });
+            assert.deepEqual(parseImageReference(`quay.io/ns/my_app-x.y@${DIGEST}`), {
+                registry: "quay.io", repository: "ns/my_app-x.y", tag: undefined, digest: DIGEST,
+            });
+        });
+
+        it("fails with the reason a reference is invalid", () => {
+            const cases: [ string, string ][] = [
+                [ "", "the image name is empty" ],
+                [ `quay.io/${"a".repeat(250)}`, "the image name is longer than 255 characters" ],
+                [ "my_registry.io/app", `the registry "my_registry.io" is not a hostname or an IP address in brackets, `
+                    + `with an optional port` ],
+                [ "quay.io/ns//app", `the repository "ns//app" has an empty path component` ],
+                [ "quay.io/ns/App", `the repository "ns/App" must be lowercase` ],
+                [ "quay.io/ns/-app", `the path component "-app" of the repository may only have lowercase letters `
+                    + `and digits, separated by ".", "_", "__" or dashes` ],
+                [ "app:.v1", `the tag ".v1" must have at most 128 letters, digits, "_", "." and "-", `
+                    + `and may not start with "." or "-"` ],
+                [ `app:${"v".repeat(129)}`, `the tag "${"v".repeat(129)}" must have at most 128 letters, digits, `
+                    + `"_", "." and "-", and may not start with "." or "-"` ],
+                [ "app@sha256:abc", `the digest "sha256:abc" must be in the form "algorithm:hex", `
+                    + `eg. "sha256:" followed by 64 hexadecimal characters` ],
+                [ `app@${DIGEST}0`, `the digest "${DIGEST}0" must be in the form "algorithm:hex", `
+                    + `eg. "sha256:" followed by 64 hexadecimal characters` ],
+            ];
+            for (const [ reference, reason ] of cases) {
+                assert.throws(
+                    () => parseImageReference(reference),
+                    { message: `Invalid image reference "${reference}": ${reason}` },
+                );
+                assert.equal(isValidReference(reference), false);
+            }
+        });
+    });
+
+    describe("isTag", () => {
+        it("tells tags from references with an image name", () => {
+            assert.equal(isTag("v1.2.3"), true);
+            assert.equal(isTag("latest_build-1"), true);
+            assert.equal(isTag("app:v1"), false);
+            assert.equal(isTag("quay.io/ns/app"), false);
+            assert.equal(isTag(".v1"), false);
+            assert.equal(isTag("v".repeat(129)), false);
+        });
+    });
+
+    describe("normalizeReference", () => {
+        it("returns the fully qualified reference", () => {
+            assert.equal(normalizeReference("app"), "docker.io/library/app");
+            assert.equal(normalizeReference("ns/app:v1"), "docker.io/ns/app:v1");
+            assert.equal(normalizeReference("index.docker.io/library/app:v1"), "docker.io/library/app:v1");
+            assert.equal(normalizeReference(`localhost:5000/app:v1@${DIGEST}`), `localhost:5000/app:v1@${DIGEST}`);
+            assert.equal(normalizeReference("[::1]:5000/ns/app"), "[::1]:5000/ns/app");
+        });
+
+        it("fails for invalid references", () => {
+            assert.throws(() => normalizeReference("App:v1"), /^Error: Invalid image reference "App:v1": /);
+        });
+    });
+});
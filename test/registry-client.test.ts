@@ -0,0 +1,154 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    BlobFile, ManifestData, MediaTypes, sha256Digest,
+} from "../src/oci";
+import { RegistryClient } from "../src/registry-client";
+import { STUB_SERVICE, StubRegistry, startStubRegistry } from "./helpers/stub-registry";
+
+const CREDENTIALS = { username: "robot", password: "secret" };
+
+// the blobs larger than the upload chunk size of the client, which are uploaded in chunks
+const CHUNKED_BLOB_SIZE = 32 * 1024 * 1024 + 1024;
+
+describe("RegistryClient", () => {
+    let registry: StubRegistry;
+    let client: RegistryClient;
+    let blobDir: string;
+    const log = (): void => undefined;
+
+    async function writeBlob(content: Buffer): Promise<BlobFile> {
+        const digest = sha256Digest(content);
+        const blobPath = path.join(blobDir, digest.replace(":", "-"));
+        await fs.writeFile(blobPath, content);
+        return {
+            mediaType: MediaTypes.OCI_LAYER_GZIP,
+            digest,
+            size: content.length,
+            path: blobPath,
+        };
+    }
+
+    // the upload IDs are random
+    function getRequests(): string[] {
+        return registry.requests.map((request) => request.replace(/\/uploads\/[\w-]+$/, "/uploads/<id>"));
+    }
+
+    beforeEach(async () => {
+        registry = await startStubRegistry(CREDENTIALS);
+        // without TLS verification, the client falls back to HTTP
+        client = new RegistryClient(registry.host, CREDENTIALS, false);
+        blobDir = await fs.mkdtemp(path.join(os.tmpdir(), "push-to-registry-test-blobs-"));
+    });
+
+    afterEach(async () => {
+        await registry.close();
+        await fs.rm(blobDir, { recursive: true, force: true });
+    });
+
+    it("authenticates with a token from the realm of the WWW-Authenticate challenge", async () => {
+        await client.pushBlob("ns/app", await writeBlob(Buffer.from("layer")), log);
+
+        assert.equal(registry.tokenRequests.length, 1);
+        const [ tokenRequest ] = registry.tokenRequests;
+        assert.equal(tokenRequest.pathname, "/token");
+        assert.equal(tokenRequest.searchParams.get("service"), STUB_SERVICE);
+        assert.deepEqual(tokenRequest.searchParams.getAll("scope"), [ "repository:ns/app:pull,push" ]);
+    });
+
+    it("fails if the token realm rejects the credentials", async () => {
+        const badClient = new RegistryClient(registry.host, { ...CREDENTIALS, password: "wrong" }, false);
+        await assert.rejects(
+            badClient.blobExists("ns/app", sha256Digest("layer")),
+            new RegExp(`^Error: Failed to get a token for registry "${registry.host}": status 401 Unauthorized`),
+        );
+    });
+
+    it("uploads small blobs with a single PUT", async () => {
+        const content = Buffer.from("small layer");
+        const blob = await writeBlob(content);
+        await client.pushBlob("ns/app", blob, log);
+
+        assert.deepEqual(getRequests(), [
+            "GET /v2/",
+            `HEAD /v2/ns/app/blobs/${blob.digest}`,
+            "POST /v2/ns/app/blobs/uploads/",
+            "PUT /v2/ns/app/blobs/uploads/<id>",
+        ]);
+        assert.deepEqual(registry.blobs.get(`ns/app@${blob.digest}`), content);
+    });
+
+    it("uploads large blobs in chunks", async () => {
+        const content = Buffer.alloc(CHUNKED_BLOB_SIZE, "x");
+        const blob = await writeBlob(content);
+        await client.pushBlob("ns/app", blob, log);
+
+        assert.deepEqual(getRequests(), [
+            "GET /v2/",
+            `HEAD /v2/ns/app/blobs/${blob.digest}`,
+            "POST /v2/ns/app/blobs/uploads/",
+            "PATCH /v2/ns/app/blobs/uploads/<id>",
+            "PATCH /v2/ns/app/blobs/uploads/<id>",
+            "PUT /v2/ns/app/blobs/uploads/<id>",
+        ]);
+        assert.ok(registry.blobs.get(`ns/app@${blob.digest}`)?.equals(content));
+    });
+
+    it("skips blobs which the repository has", async () => {
+        const blob = await writeBlob(Buffer.from("layer"));
+        await client.pushBlob("ns/app", blob, log);
+        registry.requests.length = 0;
+
+        await client.pushBlob("ns/app", blob, log);
+        assert.deepEqual(getRequests(), [ `HEAD /v2/ns/app/blobs/${blob.digest}` ]);
+    });
+
+    it("mounts blobs which it uploaded to another repository", async () => {
+        const blob = await writeBlob(Buffer.from("base layer"));
+        await client.pushBlob("ns/base", blob, log);
+        registry.requests.length = 0;
+
+        await client.pushBlob("ns/app", blob, log);
+        assert.deepEqual(getRequests(), [
+            `HEAD /v2/ns/app/blobs/${blob.digest}`,
+            "POST /v2/ns/app/blobs/uploads/",
+        ]);
+        assert.deepEqual(
+            registry.tokenRequests[registry.tokenRequests.length - 1].searchParams.getAll("scope"),
+            [ "repository:ns/app:pull,push", "repository:ns/base:pull" ],
+        );
+        assert.deepEqual(registry.blobs.get(`ns/app@${blob.digest}`), Buffer.from("base layer"));
+    });
+
+    it("mounts blobs from a given repository", async () => {
+        const blob = await writeBlob(Buffer.from("base layer"));
+        await client.pushBlob("ns/base", blob, log);
+
+        assert.equal(await client.mountBlob("ns/app", blob.digest, "ns/base"), true);
+        assert.equal(await client.mountBlob("ns/other", sha256Digest("missing"), "ns/base"), false);
+    });
+
+    it("pushes manifests by tag, and returns the digest from the registry", async () => {
+        const content = Buffer.from(JSON.stringify({ schemaVersion: 2, mediaType: MediaTypes.OCI_MANIFEST }));
+        const manifest: ManifestData = { mediaType: MediaTypes.OCI_MANIFEST, digest: sha256Digest(content), content };
+
+        const digest = await client.putManifest("ns/app", "v1", manifest);
+        assert.equal(digest, manifest.digest);
+        assert.deepEqual(registry.manifests.get("ns/app:v1"), { mediaType: MediaTypes.OCI_MANIFEST, content });
+        assert.deepEqual(getRequests(), [ "GET /v2/", "PUT /v2/ns/app/manifests/v1" ]);
+
+        assert.deepEqual(await client.headManifest("ns/app", "v1"), {
+            mediaType: MediaTypes.OCI_MANIFEST,
+            digest: manifest.digest,
+            size: content.length,
+        });
+        assert.equal(await client.getManifest("ns/app", "v2"), undefined);
+    });
+});
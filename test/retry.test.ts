@@ -0,0 +1,105 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { RetryOptions, classifyError, withRetry } from "../src/retry";
+
+const RETRYABLE_ERRORS = [
+    // podman push
+    `Error: writing blob: initiating layer upload to /v2/ns/app/blobs/uploads/ in quay.io: `
+        + `received unexpected HTTP status: 502 Bad Gateway`,
+    `Error: trying to reuse blob sha256:${"a".repeat(64)} at destination: `
+        + `pinging container registry quay.io: Get "https://quay.io/v2/": dial tcp 44.1.2.3:443: connect: connection refused`,
+    // skopeo copy
+    `time="2024-01-02T03:04:05Z" level=fatal msg="writing manifest: uploading manifest v1 to quay.io/ns/app: `
+        + `received unexpected HTTP status: 503 Service Unavailable"`,
+    `time="2024-01-02T03:04:05Z" level=fatal msg="initializing source docker://quay.io/ns/app:v1: `
+        + `reading manifest v1 in quay.io/ns/app: toomanyrequests: Rate limit exceeded"`,
+    `time="2024-01-02T03:04:05Z" level=fatal msg="writing blob: Patch \\"https://quay.io/v2/ns/app/blobs/uploads/1\\": `
+        + `read tcp 10.1.0.4:50514->44.1.2.3:443: read: connection reset by peer"`,
+    // the native client
+    `PUT https://quay.io/v2/ns/app/manifests/v1 failed with status 500 Internal Server Error`,
+    `ETIMEDOUT: GET https://quay.io/v2/ stalled, no data was sent or received for 120 seconds`,
+];
+
+const FATAL_ERRORS = [
+    // podman push
+    `Error: writing blob: initiating layer upload to /v2/ns/app/blobs/uploads/ in quay.io: `
+        + `unauthorized: access to the requested resource is not authorized`,
+    `Error: quay.io/ns/app:v1: image not known`,
+    // skopeo copy
+    `time="2024-01-02T03:04:05Z" level=fatal msg="writing manifest: uploading manifest v1 to quay.io/ns/app: `
+        + `denied: requested access to the resource is denied"`,
+    `time="2024-01-02T03:04:05Z" level=fatal msg="Invalid destination name docker://quay.io/ns/App: `
+        + `invalid reference format: repository name must be lowercase"`,
+    // numbers which are not HTTP statuses
+    `Error: writing blob: storing blob to file "/var/tmp/storage512": `
+        + `write /var/tmp/storage512: no space left on device`,
+    `Error: copying layer of 503 bytes: layer is larger than expected, 599 bytes`,
+    `time="2024-01-02T03:04:05Z" level=fatal msg="pinging container registry localhost:5000: `
+        + `Get \\"https://localhost:5000/v2/\\": http: server gave HTTP response to HTTPS client"`,
+];
+
+describe("retry", () => {
+    describe("classifyError", () => {
+        for (const error of RETRYABLE_ERRORS) {
+            it(`retries "${error.substring(0, 60)}..."`, () => {
+                assert.equal(classifyError(error), "retryable");
+            });
+        }
+
+        for (const error of FATAL_ERRORS) {
+            it(`does not retry "${error.substring(0, 60)}..."`, () => {
+                assert.equal(classifyError(error), "fatal");
+            });
+        }
+    });
+
+    describe("withRetry", () => {
+        const options: RetryOptions = {
+            attempts: 3,
+            initialDelaySeconds: 0.1,
+            backoffFactor: 2,
+            jitter: 0,
+        };
+
+        it("retries retryable errors with growing delays, until the attempts run out", async () => {
+            const attemptTimes: number[] = [];
+
+            await assert.rejects(withRetry(options, async (attempt) => {
+                attemptTimes.push(Date.now());
+                throw new Error(`attempt ${attempt}: received unexpected HTTP status: 503 Service Unavailable`);
+            }), /^Error: Giving up after 3 attempts\. attempt 3: received unexpected HTTP status: 503/);
+
+            assert.equal(attemptTimes.length, 3);
+            const firstDelay = attemptTimes[1] - attemptTimes[0];
+            const secondDelay = attemptTimes[2] - attemptTimes[1];
+            // timers may fire a little late, but not early
+            assert.ok(firstDelay >= 95, `the first delay is ${firstDelay}ms`);
+            assert.ok(secondDelay >= 195, `the second delay is ${secondDelay}ms`);
+        });
+
+        it("returns the result of the first attempt which succeeds", async () => {
+            const result = await withRetry({ ...options, initialDelaySeconds: 0 }, async (attempt) => {
+                if (attempt < 2) {
+                    throw new Error("read: connection reset by peer");
+                }
+                return attempt;
+            });
+
+            assert.equal(result, 2);
+        });
+
+        it("does not retry fatal errors", async () => {
+            let attempts = 0;
+
+            await assert.rejects(withRetry(options, async () => {
+                attempts++;
+                throw new Error("unauthorized: access to the requested resource is not authorized");
+            }), /^Error: unauthorized/);
+            assert.equal(attempts, 1);
+        });
+    });
+});
@@ -0,0 +1,230 @@
+/***************************************************************************************************
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE file in the project root for license information.
+ **************************************************************************************************/
+
+import { strict as assert } from "assert";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    TagContext,
+    expandTagTemplates, getTagContext, normalizeTag, sanitizeTag,
+} from "../src/tag-templates";
+
+const SHA = "1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b";
+
+const PUSH_CONTEXT: TagContext = {
+    sha: SHA,
+    branch: "main",
+    pr: undefined,
+    gitTag: undefined,
+    defaultBranch: "main",
+};
+
+function getTagPushContext(gitTag: string): TagContext {
+    return {
+        ...PUSH_CONTEXT, branch: undefined, gitTag,
+    };
+}
+
+describe("tag templates", () => {
+    describe("getTagContext", () => {
+        const ENV_VARS = [ "GITHUB_REF", "GITHUB_HEAD_REF", "GITHUB_SHA", "GITHUB_EVENT_PATH" ];
+        const originalEnv: Record<string, string | undefined> = {};
+        let eventDir: string;
+
+        beforeEach(async () => {
+            ENV_VARS.forEach((name) => {
+                originalEnv[name] = process.env[name];
+                delete process.env[name];
+            });
+            eventDir = await fs.mkdtemp(path.join(os.tmpdir(), "push-to-registry-test-event-"));
+        });
+
+        afterEach(async () => {
+            ENV_VARS.forEach((name) => {
+                if (originalEnv[name] == null) {
+                    delete process.env[name];
+                }
+                else {
+                    process.env[name] = originalEnv[name];
+                }
+            });
+            await fs.rm(eventDir, { recursive: true, force: true });
+        });
+
+        async function writeEvent(payload: object): Promise<void> {
+            process.env.GITHUB_EVENT_PATH = path.join(eventDir, "event.json");
+            await fs.writeFile(process.env.GITHUB_EVENT_PATH, JSON.stringify(payload));
+        }
+
+        it("reads the branch of a push, and the default branch from the event", async () => {
+            process.env.GITHUB_REF = "refs/heads/main";
+            process.env.GITHUB_SHA = SHA;
+            await writeEvent({ repository: { default_branch: "main" } });
+
+            assert.deepEqual(await getTagContext(), PUSH_CONTEXT);
+        });
+
+        it("reads the head branch and the number of a pull request", async () => {
+            process.env.GITHUB_REF = "refs/pull/12/merge";
+            process.env.GITHUB_HEAD_REF = "feature/login";
+            process.env.GITHUB_SHA = SHA;
+            await writeEvent({ pull_request: { number: 12 }, repository: { default_branch: "main" } });
+
+            assert.deepEqual(await getTagContext(), {
+                sha: SHA,
+                branch: "feature/login",
+                pr: "12",
+                gitTag: undefined,
+                defaultBranch: "main",
+            });
+        });
+
+        it("reads the number of a pull request from the ref, if the event does not have it", async () => {
+            process.env.GITHUB_REF = "refs/pull/34/merge";
+
+            assert.equal((await getTagContext()).pr, "34");
+        });
+
+        it("reads the git tag of a push", async () => {
+            process.env.GITHUB_REF = "refs/tags/v1.2.3";
+
+            assert.deepEqual(await getTagContext(), {
+                sha: undefined,
+                branch: undefined,
+                pr: undefined,
+                gitTag: "v1.2.3",
+                defaultBranch: undefined,
+            });
+        });
+
+        it("leaves out what is not in the event, if the event cannot be read", async () => {
+            process.env.GITHUB_REF = "refs/heads/main";
+            process.env.GITHUB_EVENT_PATH = path.join(eventDir, "missing.json");
+
+            assert.equal((await getTagContext()).defaultBranch, undefined);
+        });
+    });
+
+    describe("expandTagTemplates", () => {
+        it("fills the templates of the commit and the branch", () => {
+            assert.deepEqual(expandTagTemplates([ "{{sha}}", "sha-{{short-sha}}", "{{branch}}" ], PUSH_CONTEXT), [
+                SHA,
+                "sha-1a2b3c4",
+                "main",
+            ]);
+        });
+
+        it("tags a push to the default branch as latest", () => {
+            assert.deepEqual(expandTagTemplates([ "{{latest}}" ], PUSH_CONTEXT), [ "latest" ]);
+            assert.deepEqual(expandTagTemplates([ "{{latest}}" ], { ...PUSH_CONTEXT, branch: "develop" }), []);
+            // a pull request from the default branch is not a push to it
+            assert.deepEqual(expandTagTemplates([ "{{latest}}" ], { ...PUSH_CONTEXT, pr: "12" }), []);
+        });
+
+        it("fills the templates of a pull request, and sanitizes its branch", () => {
+            const context = { ...PUSH_CONTEXT, branch: "Feature/Login", pr: "12" };
+
+            assert.deepEqual(expandTagTemplates([ "pr-{{pr}}", "{{branch}}", "{{latest}}" ], context), [
+                "pr-12",
+                "feature-login",
+            ]);
+        });
+
+        it("expands semver to the version, the major and minor version, and the major version", () => {
+            const context = getTagPushContext("v1.2.3");
+
+            assert.deepEqual(expandTagTemplates([ "{{semver}}" ], context), [ "v1.2.3", "v1.2", "v1" ]);
+            // the git tag is the same as the version, so it is pushed once
+            const templates = [ "{{version}}", "{{major.minor}}", "{{major}}", "{{tag}}" ];
+            assert.deepEqual(expandTagTemplates(templates, context), [ "v1.2.3", "v1.2", "v1" ]);
+        });
+
+        it("only has the v prefix if the git tag has it", () => {
+            assert.deepEqual(expandTagTemplates([ "{{semver}}" ], getTagPushContext("1.2.3")), [ "1.2.3", "1.2", "1" ]);
+        });
+
+        it("leaves out the build metadata of the version", () => {
+            assert.deepEqual(expandTagTemplates([ "{{version}}" ], getTagPushContext("v1.2.3+build.4")), [ "v1.2.3" ]);
+        });
+
+        it("only tags prereleases with their version", () => {
+            const context = getTagPushContext("v1.2.3-rc.1");
+
+            assert.deepEqual(expandTagTemplates([ "{{semver}}", "{{major}}" ], context), [ "v1.2.3-rc.1" ]);
+        });
+
+        it("does not tag 0.x versions with their major version", () => {
+            assert.deepEqual(expandTagTemplates([ "{{semver}}" ], getTagPushContext("v0.4.1")), [ "v0.4.1", "v0.4" ]);
+        });
+
+        it("has no versions for git tags which are not semver", () => {
+            const context = getTagPushContext("release/2024.1");
+
+            assert.deepEqual(expandTagTemplates([ "{{semver}}", "{{version}}", "{{tag}}" ], context), [
+                "release-2024.1",
+            ]);
+        });
+
+        it("skips tags without a value, and pushes each tag once", () => {
+            const templates = [ "pr-{{pr}}", "{{branch}}", "main", "{{tag}}-{{sha}}" ];
+            assert.deepEqual(expandTagTemplates(templates, PUSH_CONTEXT), [ "main" ]);
+        });
+
+        it("fills tags with more than one template, and leaves tags without templates as they are", () => {
+            assert.deepEqual(expandTagTemplates([ "{{branch}}-{{short-sha}}", "stable" ], PUSH_CONTEXT), [
+                "main-1a2b3c4",
+                "stable",
+            ]);
+        });
+
+        it("fails for an unknown template", () => {
+            assert.throws(
+                () => expandTagTemplates([ "{{commit}}" ], PUSH_CONTEXT),
+                /Unknown template "\{\{commit\}\}" in input "tags"\. The templates are "\{\{sha\}\}, /
+            );
+        });
+    });
+
+    describe("sanitizeTag", () => {
+        it("lowercases the tag, and replaces each run of characters which are not allowed with -", () => {
+            assert.equal(sanitizeTag("Feature/Login"), "feature-login");
+            assert.equal(sanitizeTag("fix: a bug #12"), "fix-a-bug-12");
+            assert.equal(sanitizeTag("v1.2_rc-1"), "v1.2_rc-1");
+        });
+
+        it("removes leading . and -", () => {
+            assert.equal(sanitizeTag(".hidden"), "hidden");
+            assert.equal(sanitizeTag("-.-dashed"), "dashed");
+            // a character which is not allowed becomes a leading "-", which is removed too
+            assert.equal(sanitizeTag("/release"), "release");
+        });
+
+        it("truncates tags to 128 characters", () => {
+            assert.equal(sanitizeTag("a".repeat(200)), "a".repeat(128));
+            assert.equal(sanitizeTag(`-${"b".repeat(128)}`), "b".repeat(128));
+        });
+
+        it("fails for tags without allowed characters", () => {
+            assert.throws(() => sanitizeTag("..."), /Tag "\.\.\." has no characters which are allowed in a tag/);
+        });
+    });
+
+    describe("normalizeTag", () => {
+        it("sanitizes a tag", () => {
+            assert.equal(normalizeTag("Feature_X"), "feature_x");
+        });
+
+        it("sanitizes the tag of a full image name, and lowercases its name", () => {
+            assert.equal(normalizeTag("Quay.io/NS/App:Feature"), "quay.io/ns/app:feature");
+            assert.equal(normalizeTag("localhost:5000/app:V1"), "localhost:5000/app:v1");
+        });
+
+        it("keeps the digest of a full image name", () => {
+            const digest = `sha256:${"a".repeat(64)}`;
+            assert.equal(normalizeTag(`quay.io/ns/app@${digest}`), `quay.io/ns/app@${digest}`);
+        });
+    });
+});